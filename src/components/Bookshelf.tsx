@@ -1,6 +1,13 @@
-import { useRef, useCallback } from "react";
-import { Plus, FileText, Trash2, BookOpen, Loader2 } from "lucide-react";
+import { useRef, useCallback, useMemo } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { de } from "date-fns/locale";
+import { Plus, FileText, Trash2, BookOpen, Loader2, Check } from "lucide-react";
 import { PwaInstallPrompt } from "@/components/PwaInstallPrompt";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { renderPageThumbnail } from "@/lib/pageThumbnails";
+import { openPdf, type PdfDocument } from "@/lib/pdfjs";
+import { MAX_PDF_SIZE, classifyPdfError, type PdfLoadErrorKind } from "@/lib/pdfLoadErrors";
+import { readingProgress, recentlyOpened } from "@/lib/readingPosition";
 import type { PdfEntry } from "@/types/pdf";
 
 export type { PdfEntry };
@@ -12,39 +19,36 @@ interface BookshelfProps {
   onRemove: (id: string) => void;
 }
 
-// Renders first page of a PDF to a small canvas and returns a data URL
-export async function generateThumbnail(file: File): Promise<string | null> {
-  try {
-    let attempts = 0;
-    while (!window.pdfjsLib && attempts < 20) {
-      await new Promise((r) => setTimeout(r, 100));
-      attempts++;
-    }
-    if (!window.pdfjsLib) return null;
-
-    const pdfjsLib = window.pdfjsLib;
-    pdfjsLib.GlobalWorkerOptions.workerSrc =
-      "https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js";
-
-    const url = URL.createObjectURL(file);
-    const pdf = await pdfjsLib.getDocument({ url }).promise;
-    const page = await pdf.getPage(1);
-    const viewport = page.getViewport({ scale: 0.5 });
+export interface ThumbnailResult {
+  thumbnail: string | null;
+  // Why there is no thumbnail; "password" until the document is unlocked
+  error: PdfLoadErrorKind | null;
+}
 
-    const canvas = document.createElement("canvas");
-    canvas.width = viewport.width;
-    canvas.height = viewport.height;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return null;
+// Renders first page of a PDF to a small canvas and returns a data URL.
+// Encrypted files need their `password`.
+export async function generateThumbnail(file: File, password?: string): Promise<ThumbnailResult> {
+  if (file.size > MAX_PDF_SIZE) return { thumbnail: null, error: "tooLarge" };
 
-    await page.render({ canvasContext: ctx, viewport }).promise;
-    URL.revokeObjectURL(url);
-    return canvas.toDataURL("image/jpeg", 0.85);
-  } catch {
-    return null;
+  let url: string | null = null;
+  let pdf: PdfDocument | null = null;
+  try {
+    url = URL.createObjectURL(file);
+    pdf = await openPdf(url, password).promise;
+    const thumbnail = await renderPageThumbnail(pdf, 1, { scale: 0.5 });
+    return { thumbnail, error: null };
+  } catch (err) {
+    const error = classifyPdfError(err);
+    if (error !== "password") console.error("Thumbnail error:", err);
+    return { thumbnail: null, error };
+  } finally {
+    pdf?.destroy();
+    if (url) URL.revokeObjectURL(url);
   }
 }
 
+const CONTINUE_READING_LIMIT = 8;
+
 interface BookCardProps {
   entry: PdfEntry;
   onOpen: () => void;
@@ -54,6 +58,10 @@ interface BookCardProps {
 const BookCard = ({ entry, onOpen, onRemove }: BookCardProps) => {
   const name = entry.name.replace(/\.pdf$/i, "");
   const isUploading = !entry.storagePath;
+  const progress = readingProgress(entry.readingPosition);
+  const lastOpened = entry.readingPosition
+    ? formatDistanceToNow(new Date(entry.readingPosition.updatedAt), { addSuffix: true, locale: de })
+    : null;
 
   return (
     <div
@@ -127,6 +135,28 @@ const BookCard = ({ entry, onOpen, onRemove }: BookCardProps) => {
             </button>
           )}
 
+          {/* Finished badge */}
+          {progress?.isFinished && (
+            <div className="absolute top-2 left-2 flex items-center gap-1 rounded-full bg-primary px-1.5 py-0.5 text-[9px] font-semibold text-primary-foreground shadow">
+              <Check className="w-2.5 h-2.5" />
+              Gelesen
+            </div>
+          )}
+
+          {/* Reading progress */}
+          {progress && !progress.isFinished && (
+            <div
+              className="absolute bottom-0 left-0 right-0 h-1 bg-foreground/15"
+              role="progressbar"
+              aria-label="Lesefortschritt"
+              aria-valuenow={Math.round(progress.fraction * 100)}
+              aria-valuemin={0}
+              aria-valuemax={100}
+            >
+              <div className="h-full bg-primary" style={{ width: `${progress.fraction * 100}%` }} />
+            </div>
+          )}
+
           {/* Uploading badge */}
           {isUploading && (
             <div className="absolute bottom-2 left-0 right-0 flex justify-center">
@@ -147,7 +177,13 @@ const BookCard = ({ entry, onOpen, onRemove }: BookCardProps) => {
           </p>
           <p className="text-[10px] text-muted-foreground">
             {(entry.size / 1024 / 1024).toFixed(1)} MB
+            {progress && !progress.isFinished && ` · ${Math.round(progress.fraction * 100)} %`}
           </p>
+          {lastOpened && (
+            <p className="text-[10px] text-muted-foreground truncate" title={`Zuletzt geöffnet ${lastOpened}`}>
+              {lastOpened}
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -156,6 +192,7 @@ const BookCard = ({ entry, onOpen, onRemove }: BookCardProps) => {
 
 export const Bookshelf = ({ books, onAdd, onOpen, onRemove }: BookshelfProps) => {
   const inputRef = useRef<HTMLInputElement>(null);
+  const continueReading = useMemo(() => recentlyOpened(books, CONTINUE_READING_LIMIT), [books]);
 
   const handleFiles = useCallback(
     (files: FileList | null) => {
@@ -198,6 +235,7 @@ export const Bookshelf = ({ books, onAdd, onOpen, onRemove }: BookshelfProps) =>
         </div>
         <div className="flex items-center gap-2">
           <PwaInstallPrompt />
+          <ThemeToggle className="flex h-8 w-8 items-center justify-center rounded-lg text-muted-foreground hover:bg-muted hover:text-foreground transition-colors" />
           <button
           onClick={() => inputRef.current?.click()}
           className="flex items-center gap-1.5 px-3 py-1.5 bg-primary text-primary-foreground text-xs font-semibold rounded-lg hover:bg-primary/90 transition-colors active:scale-95 shadow-sm"
@@ -226,26 +264,43 @@ export const Bookshelf = ({ books, onAdd, onOpen, onRemove }: BookshelfProps) =>
             </div>
           </label>
         ) : (
-          <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 xl:grid-cols-7 gap-3">
-            {books.map((entry) => (
-              <BookCard
-                key={entry.id}
-                entry={entry}
-                onOpen={() => onOpen(entry)}
-                onRemove={() => onRemove(entry.id)}
-              />
-            ))}
+          <>
+            {continueReading.length > 0 && (
+              <section className="mb-6">
+                <h2 className="mb-2 text-xs font-semibold text-muted-foreground">Weiterlesen</h2>
+                <div className="-mx-4 flex gap-3 overflow-x-auto px-4 pb-1">
+                  {continueReading.map((entry) => (
+                    <div key={entry.id} className="w-28 shrink-0 sm:w-32">
+                      <BookCard entry={entry} onOpen={() => onOpen(entry)} onRemove={() => onRemove(entry.id)} />
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+            {continueReading.length > 0 && (
+              <h2 className="mb-2 text-xs font-semibold text-muted-foreground">Alle Dokumente</h2>
+            )}
+            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 xl:grid-cols-7 gap-3">
+              {books.map((entry) => (
+                <BookCard
+                  key={entry.id}
+                  entry={entry}
+                  onOpen={() => onOpen(entry)}
+                  onRemove={() => onRemove(entry.id)}
+                />
+              ))}
 
-            {/* Add more tile */}
-            <label
-              htmlFor="pdf-input-shelf"
-              className="flex flex-col items-center justify-center rounded-xl border-2 border-dashed border-border cursor-pointer hover:border-primary/40 hover:bg-primary/[0.03] transition-all duration-200 gap-2 min-h-[130px]"
-              style={{ aspectRatio: "3/4" }}
-            >
-              <Plus className="w-5 h-5 text-muted-foreground" />
-              <span className="text-[10px] text-muted-foreground font-medium">Hinzufügen</span>
-            </label>
-          </div>
+              {/* Add more tile */}
+              <label
+                htmlFor="pdf-input-shelf"
+                className="flex flex-col items-center justify-center rounded-xl border-2 border-dashed border-border cursor-pointer hover:border-primary/40 hover:bg-primary/[0.03] transition-all duration-200 gap-2 min-h-[130px]"
+                style={{ aspectRatio: "3/4" }}
+              >
+                <Plus className="w-5 h-5 text-muted-foreground" />
+                <span className="text-[10px] text-muted-foreground font-medium">Hinzufügen</span>
+              </label>
+            </div>
+          </>
         )}
       </main>
 
@@ -0,0 +1,64 @@
+import { useRef } from "react";
+import { Download, Loader2 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { AnnotationExportFormat } from "@/lib/annotationExchange";
+
+interface PdfAnnotationExportMenuProps {
+  isExporting: boolean;
+  onExportPdf: (flatten: boolean) => void;
+  onExportData: (format: AnnotationExportFormat) => void;
+  onImport: (file: File) => void;
+}
+
+export const PdfAnnotationExportMenu = ({
+  isExporting,
+  onExportPdf,
+  onExportData,
+  onImport,
+}: PdfAnnotationExportMenuProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger
+          className="flex h-8 items-center gap-1.5 rounded-md px-2 text-xs font-semibold text-foreground transition-colors hover:bg-muted disabled:opacity-45"
+          disabled={isExporting}
+        >
+          {isExporting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Download className="h-3.5 w-3.5" />}
+          Exportieren
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel className="text-xs">PDF herunterladen</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={() => onExportPdf(false)}>Mit bearbeitbaren Anmerkungen</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onExportPdf(true)}>Mit eingebrannten Anmerkungen</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs">Anmerkungen exportieren</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={() => onExportData("markdown")}>Zusammenfassung (Markdown)</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onExportData("json")}>JSON</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onExportData("xfdf")}>XFDF (Acrobat)</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => inputRef.current?.click()}>Anmerkungen importieren…</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.xfdf,.xml,application/json,application/vnd.adobe.xfdf"
+        className="sr-only"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = "";
+        }}
+      />
+    </>
+  );
+};
@@ -0,0 +1,196 @@
+import { useRef, useState } from "react";
+import { StickyNote } from "lucide-react";
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover";
+import { PdfAnnotationNoteEditor } from "@/components/PdfAnnotationNoteEditor";
+import {
+  ANNOTATION_COLORS,
+  INK_STROKE_WIDTH,
+  createAnnotationId,
+  type AnnotationTool,
+} from "@/lib/annotations";
+import { clientToPagePoint } from "@/lib/pageRotation";
+import type { Annotation, AnnotationColor, AnnotationPoint, PageSize } from "@/types/pdf";
+
+const pathData = (points: AnnotationPoint[]) =>
+  points.map((point, idx) => `${idx === 0 ? "M" : "L"}${point.x.toFixed(1)} ${point.y.toFixed(1)}`).join(" ");
+
+interface PdfAnnotationMarksProps {
+  annotations: Annotation[];
+  size: PageSize;
+  activeId: string | null;
+  // How highlights mix with the page; "screen" keeps them visible on dark pages
+  blend?: "multiply" | "screen";
+}
+
+// Highlights and ink, drawn between the canvas and the text layer so text
+// stays selectable on top of them
+export const PdfAnnotationMarks = ({ annotations, size, activeId, blend = "multiply" }: PdfAnnotationMarksProps) => (
+  <svg
+    className="pointer-events-none absolute inset-0 h-full w-full"
+    viewBox={`0 0 ${size.width} ${size.height}`}
+    preserveAspectRatio="none"
+    aria-hidden="true"
+  >
+    {annotations.map((annotation) => {
+      const color = ANNOTATION_COLORS[annotation.color].hex;
+      const isActive = annotation.id === activeId;
+      if (annotation.type === "highlight") {
+        return (
+          <g key={annotation.id} fill={color} opacity={isActive ? 0.55 : 0.38} style={{ mixBlendMode: blend }}>
+            {annotation.rects.map((rect, idx) => (
+              <rect key={idx} x={rect.x} y={rect.y} width={rect.width} height={rect.height} rx={1} />
+            ))}
+          </g>
+        );
+      }
+      if (annotation.type === "ink") {
+        return (
+          <g
+            key={annotation.id}
+            fill="none"
+            stroke={color}
+            strokeWidth={isActive ? annotation.strokeWidth * 1.6 : annotation.strokeWidth}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            {annotation.paths.map((path, idx) => (
+              <path key={idx} d={pathData(path)} />
+            ))}
+          </g>
+        );
+      }
+      return null;
+    })}
+  </svg>
+);
+
+interface PdfAnnotationOverlayProps {
+  pageNum: number;
+  annotations: Annotation[];
+  size: PageSize;
+  // Clockwise rotation the page is shown at; `size` is unrotated
+  rotation?: number;
+  tool: AnnotationTool | null;
+  color: AnnotationColor;
+  activeId: string | null;
+  onCreate: (annotation: Annotation) => void;
+  onSelect: (id: string | null) => void;
+  onUpdateNote: (id: string, note: string) => void;
+  onRemove: (id: string) => void;
+}
+
+// Sticky notes plus the surface that places notes and records ink strokes
+// while one of those tools is active
+export const PdfAnnotationOverlay = ({
+  pageNum,
+  annotations,
+  size,
+  rotation = 0,
+  tool,
+  color,
+  activeId,
+  onCreate,
+  onSelect,
+  onUpdateNote,
+  onRemove,
+}: PdfAnnotationOverlayProps) => {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const [stroke, setStroke] = useState<AnnotationPoint[] | null>(null);
+
+  const toPagePoint = (clientX: number, clientY: number): AnnotationPoint | null => {
+    const rect = surfaceRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return null;
+    return clientToPagePoint(clientX, clientY, rect, size, rotation);
+  };
+
+  const baseAnnotation = () => {
+    const now = new Date().toISOString();
+    return { id: createAnnotationId(), pageNum, color, note: "", createdAt: now, updatedAt: now };
+  };
+
+  const notes = annotations.filter((annotation) => annotation.type === "note");
+  const isDrawing = tool === "note" || tool === "ink";
+
+  return (
+    <div className="pointer-events-none absolute inset-0 z-[3]">
+      {isDrawing && (
+        <div
+          ref={surfaceRef}
+          className="pointer-events-auto absolute inset-0 cursor-crosshair"
+          style={{ touchAction: tool === "ink" ? "none" : undefined }}
+          onPointerDown={(e) => {
+            if (tool !== "ink" || e.button !== 0) return;
+            const point = toPagePoint(e.clientX, e.clientY);
+            if (!point) return;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setStroke([point]);
+          }}
+          onPointerMove={(e) => {
+            if (!stroke) return;
+            const point = toPagePoint(e.clientX, e.clientY);
+            const last = stroke[stroke.length - 1];
+            if (point && Math.hypot(point.x - last.x, point.y - last.y) >= 1) setStroke([...stroke, point]);
+          }}
+          onPointerUp={() => {
+            if (stroke && stroke.length > 1) {
+              onCreate({ ...baseAnnotation(), type: "ink", paths: [stroke], strokeWidth: INK_STROKE_WIDTH });
+            }
+            setStroke(null);
+          }}
+          onPointerCancel={() => setStroke(null)}
+          onClick={(e) => {
+            if (tool !== "note") return;
+            const point = toPagePoint(e.clientX, e.clientY);
+            if (point) onCreate({ ...baseAnnotation(), type: "note", position: point });
+          }}
+        >
+          {stroke && (
+            <svg
+              className="absolute inset-0 h-full w-full"
+              viewBox={`0 0 ${size.width} ${size.height}`}
+              preserveAspectRatio="none"
+              aria-hidden="true"
+            >
+              <path
+                d={pathData(stroke)}
+                fill="none"
+                stroke={ANNOTATION_COLORS[color].hex}
+                strokeWidth={INK_STROKE_WIDTH}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+          )}
+        </div>
+      )}
+
+      {notes.map((note) => (
+        <Popover key={note.id} open={note.id === activeId} onOpenChange={(open) => onSelect(open ? note.id : null)}>
+          <PopoverAnchor asChild>
+            <button
+              onClick={() => onSelect(note.id === activeId ? null : note.id)}
+              className="pointer-events-auto absolute flex h-6 w-6 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-md shadow-md ring-1 ring-black/10 transition-transform hover:scale-110"
+              style={{
+                left: `${(note.position.x / size.width) * 100}%`,
+                top: `${(note.position.y / size.height) * 100}%`,
+                backgroundColor: ANNOTATION_COLORS[note.color].hex,
+              }}
+              aria-label={note.note ? `Notiz: ${note.note}` : "Notiz"}
+              title={note.note || undefined}
+            >
+              <StickyNote className="h-3.5 w-3.5 text-black/70" />
+            </button>
+          </PopoverAnchor>
+          <PopoverContent className="w-64 p-3" side="right" align="start">
+            <PdfAnnotationNoteEditor
+              note={note.note}
+              onSave={(text) => onUpdateNote(note.id, text)}
+              onRemove={() => onRemove(note.id)}
+              autoFocus
+            />
+          </PopoverContent>
+        </Popover>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import { useState, useEffect } from "react";
+import { Trash2 } from "lucide-react";
+
+interface PdfAnnotationNoteEditorProps {
+  note: string;
+  onSave: (note: string) => void;
+  onRemove: () => void;
+  autoFocus?: boolean;
+}
+
+// Note text is saved when the field loses focus, not on every keystroke
+export const PdfAnnotationNoteEditor = ({ note, onSave, onRemove, autoFocus = false }: PdfAnnotationNoteEditorProps) => {
+  const [draft, setDraft] = useState(note);
+
+  useEffect(() => setDraft(note), [note]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => draft !== note && onSave(draft)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) e.currentTarget.blur();
+        }}
+        autoFocus={autoFocus}
+        rows={3}
+        placeholder="Notiz hinzufügen…"
+        aria-label="Notiz"
+        className="w-full resize-y rounded-md border border-input bg-background px-2 py-1.5 text-xs text-foreground outline-none focus:border-primary"
+      />
+      <button
+        onClick={onRemove}
+        className="flex items-center gap-1 self-end rounded-md px-2 py-1 text-xs text-destructive transition-colors hover:bg-destructive/10"
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+        Löschen
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import { Highlighter, PenLine, StickyNote, X } from "lucide-react";
+import { ANNOTATION_COLORS, type AnnotationTool } from "@/lib/annotations";
+import type { AnnotationColor } from "@/types/pdf";
+
+interface PdfAnnotationToolbarProps {
+  tool: AnnotationTool | null;
+  onToolChange: (tool: AnnotationTool | null) => void;
+  color: AnnotationColor;
+  onColorChange: (color: AnnotationColor) => void;
+  onClose: () => void;
+}
+
+const TOOLS: { tool: AnnotationTool; label: string; hint: string; icon: typeof Highlighter }[] = [
+  { tool: "highlight", label: "Markieren", hint: "Text auswählen, um ihn zu markieren", icon: Highlighter },
+  { tool: "note", label: "Notiz", hint: "Auf die Seite tippen, um eine Notiz zu setzen", icon: StickyNote },
+  { tool: "ink", label: "Unterstreichen", hint: "Mit Maus, Finger oder Stift frei zeichnen", icon: PenLine },
+];
+
+const toolClass = (active: boolean) =>
+  `flex h-8 items-center gap-1.5 rounded-md border px-2 text-xs font-semibold transition-colors ${
+    active
+      ? "border-primary bg-primary text-primary-foreground"
+      : "border-border bg-card text-muted-foreground hover:text-foreground"
+  }`;
+
+export const PdfAnnotationToolbar = ({ tool, onToolChange, color, onColorChange, onClose }: PdfAnnotationToolbarProps) => (
+  <div className="z-10 flex flex-wrap items-center gap-2 border-b border-border bg-card px-3 py-2">
+    {TOOLS.map(({ tool: value, label, hint, icon: Icon }) => (
+      <button
+        key={value}
+        className={toolClass(tool === value)}
+        onClick={() => onToolChange(tool === value ? null : value)}
+        aria-pressed={tool === value}
+        title={hint}
+      >
+        <Icon className="h-3.5 w-3.5" />
+        <span className="hidden sm:inline">{label}</span>
+      </button>
+    ))}
+
+    <div className="mx-1 flex items-center gap-1.5" role="radiogroup" aria-label="Farbe">
+      {(Object.keys(ANNOTATION_COLORS) as AnnotationColor[]).map((key) => (
+        <button
+          key={key}
+          role="radio"
+          aria-checked={color === key}
+          aria-label={ANNOTATION_COLORS[key].label}
+          onClick={() => onColorChange(key)}
+          className={`h-6 w-6 rounded-full ring-offset-2 ring-offset-card transition-shadow ${
+            color === key ? "ring-2 ring-foreground" : "ring-1 ring-border"
+          }`}
+          style={{ backgroundColor: ANNOTATION_COLORS[key].hex }}
+        />
+      ))}
+    </div>
+
+    <button
+      className="ml-auto flex h-8 w-8 items-center justify-center rounded-md text-foreground transition-colors hover:bg-muted"
+      onClick={onClose}
+      aria-label="Anmerkungswerkzeuge schließen"
+    >
+      <X className="h-4 w-4" />
+    </button>
+  </div>
+);
@@ -0,0 +1,95 @@
+import { useEffect, useRef, type ReactNode } from "react";
+import { Highlighter, PenLine, StickyNote } from "lucide-react";
+import { PdfAnnotationNoteEditor } from "@/components/PdfAnnotationNoteEditor";
+import { ANNOTATION_COLORS } from "@/lib/annotations";
+import { getPageLabel } from "@/lib/pageLabels";
+import type { Annotation } from "@/types/pdf";
+
+interface PdfAnnotationsPanelProps {
+  annotations: Annotation[];
+  pageLabels: string[] | null;
+  activeId: string | null;
+  onSelect: (annotation: Annotation) => void;
+  onUpdateNote: (id: string, note: string) => void;
+  onRemove: (id: string) => void;
+  // Shown in the panel header, e.g. the export menu
+  actions?: ReactNode;
+}
+
+const TYPE_ICONS = { highlight: Highlighter, note: StickyNote, ink: PenLine };
+const TYPE_LABELS = { highlight: "Markierung", note: "Notiz", ink: "Zeichnung" };
+
+const AnnotationItem = ({
+  annotation,
+  pageLabels,
+  isActive,
+  onSelect,
+  onUpdateNote,
+  onRemove,
+}: Omit<PdfAnnotationsPanelProps, "annotations" | "activeId" | "actions"> & { annotation: Annotation; isActive: boolean }) => {
+  const itemRef = useRef<HTMLLIElement>(null);
+  const Icon = TYPE_ICONS[annotation.type];
+
+  useEffect(() => {
+    if (isActive) itemRef.current?.scrollIntoView({ block: "nearest" });
+  }, [isActive]);
+
+  return (
+    <li ref={itemRef} className={`rounded-md ${isActive ? "bg-primary/10" : ""}`}>
+      <button
+        onClick={() => onSelect(annotation)}
+        className="flex w-full items-start gap-2 rounded-md px-2 py-1.5 text-left text-xs transition-colors hover:bg-muted"
+      >
+        <span
+          className="mt-0.5 flex h-5 w-5 shrink-0 items-center justify-center rounded"
+          style={{ backgroundColor: ANNOTATION_COLORS[annotation.color].hex }}
+        >
+          <Icon className="h-3 w-3 text-black/70" />
+        </span>
+        <span className="flex min-w-0 flex-1 flex-col gap-0.5">
+          <span className="text-[10px] text-muted-foreground">
+            {TYPE_LABELS[annotation.type]} · S. {getPageLabel(annotation.pageNum, pageLabels)}
+          </span>
+          {annotation.type === "highlight" && (
+            <span className="line-clamp-3 italic text-foreground">„{annotation.quote}“</span>
+          )}
+          {annotation.note && !isActive && <span className="line-clamp-2 text-foreground">{annotation.note}</span>}
+        </span>
+      </button>
+      {isActive && (
+        <div className="px-2 pb-2">
+          <PdfAnnotationNoteEditor
+            note={annotation.note}
+            onSave={(note) => onUpdateNote(annotation.id, note)}
+            onRemove={() => onRemove(annotation.id)}
+          />
+        </div>
+      )}
+    </li>
+  );
+};
+
+export const PdfAnnotationsPanel = ({ annotations, activeId, actions, ...itemProps }: PdfAnnotationsPanelProps) => (
+  <div className="flex flex-col">
+    <div className="sticky top-0 z-[1] flex items-center justify-between gap-2 border-b border-border bg-card px-3 py-1.5">
+      <span className="text-xs font-semibold text-foreground">Anmerkungen ({annotations.length})</span>
+      {actions}
+    </div>
+    {annotations.length === 0 ? (
+      <p className="p-4 text-xs text-muted-foreground">
+        Noch keine Anmerkungen. Markiere Text, setze Notizen oder zeichne mit dem Stift.
+      </p>
+    ) : (
+      <ul className="flex flex-col gap-0.5 p-2">
+        {annotations.map((annotation) => (
+          <AnnotationItem
+            key={annotation.id}
+            annotation={annotation}
+            isActive={annotation.id === activeId}
+            {...itemProps}
+          />
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -0,0 +1,91 @@
+import { useEffect, useRef } from "react";
+import { Loader2 } from "lucide-react";
+import { NativeCommentThread } from "@/components/PdfNativeAnnotationLayer";
+import { getPageLabel } from "@/lib/pageLabels";
+import { NATIVE_KIND_LABELS, formatCommentDate, type NativeAnnotation } from "@/lib/pdfAnnotations";
+
+interface PdfCommentsPanelProps {
+  annotations: NativeAnnotation[];
+  isScanning: boolean;
+  pageLabels: string[] | null;
+  activeId: string | null;
+  onSelect: (annotation: NativeAnnotation) => void;
+}
+
+const CommentItem = ({
+  annotation,
+  pageLabels,
+  isActive,
+  onSelect,
+}: Pick<PdfCommentsPanelProps, "pageLabels" | "onSelect"> & { annotation: NativeAnnotation; isActive: boolean }) => {
+  const itemRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    if (isActive) itemRef.current?.scrollIntoView({ block: "nearest" });
+  }, [isActive]);
+
+  return (
+    <li ref={itemRef} className={`rounded-md ${isActive ? "bg-primary/10" : ""}`}>
+      <button
+        onClick={() => onSelect(annotation)}
+        className="flex w-full items-start gap-2 rounded-md px-2 py-1.5 text-left text-xs transition-colors hover:bg-muted"
+      >
+        <span
+          className="mt-1 h-3 w-3 shrink-0 rounded-sm ring-1 ring-black/10"
+          style={{ backgroundColor: annotation.color ?? "transparent" }}
+        />
+        <span className="flex min-w-0 flex-1 flex-col gap-0.5">
+          <span className="text-[10px] text-muted-foreground">
+            {NATIVE_KIND_LABELS[annotation.kind]} · S. {getPageLabel(annotation.pageNum, pageLabels)}
+          </span>
+          <span className="truncate font-semibold text-foreground">
+            {annotation.author || "Unbekannt"}
+            {annotation.modifiedAt && (
+              <span className="font-normal text-muted-foreground"> · {formatCommentDate(annotation.modifiedAt)}</span>
+            )}
+          </span>
+          {!isActive && (annotation.contents || annotation.label) && (
+            <span className="line-clamp-2 text-foreground">{annotation.contents || annotation.label}</span>
+          )}
+          {!isActive && annotation.replies.length > 0 && (
+            <span className="text-[10px] text-muted-foreground">
+              {annotation.replies.length} {annotation.replies.length === 1 ? "Antwort" : "Antworten"}
+            </span>
+          )}
+        </span>
+      </button>
+      {isActive && (
+        <div className="px-2 pb-2 pl-7">
+          <NativeCommentThread annotation={annotation} />
+        </div>
+      )}
+    </li>
+  );
+};
+
+// Comments, highlights and stamps that came with the document, e.g. from a
+// review in Acrobat. Read-only; our own annotations have their own panel.
+export const PdfCommentsPanel = ({ annotations, isScanning, activeId, ...itemProps }: PdfCommentsPanelProps) => (
+  <div className="flex flex-col">
+    <div className="sticky top-0 z-[1] flex items-center justify-between gap-2 border-b border-border bg-card px-3 py-1.5">
+      <span className="text-xs font-semibold text-foreground">Kommentare ({annotations.length})</span>
+      {isScanning && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" aria-label="Wird gesucht" />}
+    </div>
+    {annotations.length === 0 ? (
+      <p className="p-4 text-xs text-muted-foreground">
+        {isScanning ? "Kommentare werden gesucht…" : "Dieses Dokument enthält keine Kommentare."}
+      </p>
+    ) : (
+      <ul className="flex flex-col gap-0.5 p-2">
+        {annotations.map((annotation) => (
+          <CommentItem
+            key={annotation.id}
+            annotation={annotation}
+            isActive={annotation.id === activeId}
+            {...itemProps}
+          />
+        ))}
+      </ul>
+    )}
+  </div>
+);
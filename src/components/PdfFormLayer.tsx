@@ -0,0 +1,96 @@
+import { FORM_OFF_VALUE, type FormField, type FormValues } from "@/lib/pdfForms";
+import type { PageSize } from "@/types/pdf";
+
+interface PdfFormLayerProps {
+  fields: FormField[];
+  size: PageSize;
+  values: FormValues;
+  // Prefix for radio group names, so groups of different documents never mix
+  groupPrefix: string;
+  onChange: (name: string, value: string) => void;
+}
+
+const fieldClass =
+  "pointer-events-auto absolute border-0 bg-sky-100/70 p-0 text-black outline-none transition-colors hover:bg-sky-100 focus:bg-white focus:ring-2 focus:ring-primary disabled:cursor-default disabled:bg-transparent";
+
+// Auto-sized text follows the field height the way viewers usually do it
+const fontSize = (field: FormField) => {
+  const points = field.fontSize || (field.multiline ? 10 : Math.max(6, Math.min(14, field.rect.height * 0.65)));
+  return `calc(var(--scale-factor, 1) * ${points}px)`;
+};
+
+// Interactive AcroForm fields on top of the page. The viewer renders pages
+// with AnnotationMode.ENABLE_FORMS, which leaves widgets out of the canvas,
+// so these are the only rendering of them.
+export const PdfFormLayer = ({ fields, size, values, groupPrefix, onChange }: PdfFormLayerProps) => (
+  <div className="pointer-events-none absolute inset-0 z-[2]">
+    {fields.map((field) => {
+      const value = values[field.name] ?? field.value;
+      const style = {
+        left: `${(field.rect.x / size.width) * 100}%`,
+        top: `${(field.rect.y / size.height) * 100}%`,
+        width: `${(field.rect.width / size.width) * 100}%`,
+        height: `${(field.rect.height / size.height) * 100}%`,
+        fontSize: fontSize(field),
+      };
+      const common = { style, disabled: field.readOnly, "aria-label": field.name, title: field.name };
+
+      if (field.kind === "checkbox" || field.kind === "radio") {
+        const isChecked = value !== FORM_OFF_VALUE && value === field.onValue;
+        return (
+          <input
+            key={field.id}
+            {...common}
+            type={field.kind}
+            name={field.kind === "radio" ? `${groupPrefix}-${field.name}` : undefined}
+            checked={isChecked}
+            // Checkboxes toggle; a selected radio can only be replaced by another
+            onChange={() => onChange(field.name, field.kind === "checkbox" && isChecked ? FORM_OFF_VALUE : field.onValue)}
+            className={`${fieldClass} cursor-pointer accent-primary`}
+          />
+        );
+      }
+      if (field.kind === "dropdown") {
+        return (
+          <select
+            key={field.id}
+            {...common}
+            value={value}
+            onChange={(e) => onChange(field.name, e.target.value)}
+            className={`${fieldClass} cursor-pointer`}
+          >
+            {!field.options.some((option) => option.value === value) && <option value={value}>{value}</option>}
+            {field.options.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        );
+      }
+      if (field.multiline) {
+        return (
+          <textarea
+            key={field.id}
+            {...common}
+            value={value}
+            maxLength={field.maxLength ?? undefined}
+            onChange={(e) => onChange(field.name, e.target.value)}
+            className={`${fieldClass} resize-none px-0.5 leading-tight`}
+          />
+        );
+      }
+      return (
+        <input
+          key={field.id}
+          {...common}
+          type="text"
+          value={value}
+          maxLength={field.maxLength ?? undefined}
+          onChange={(e) => onChange(field.name, e.target.value)}
+          className={`${fieldClass} px-0.5`}
+        />
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,41 @@
+import { Loader2, Save } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { FormSaveMode } from "@/lib/pdfForms";
+
+interface PdfFormSaveMenuProps {
+  isSaving: boolean;
+  canSaveToLibrary: boolean;
+  canOverwrite: boolean;
+  onSave: (mode: FormSaveMode) => void;
+  onDownload: () => void;
+}
+
+export const PdfFormSaveMenu = ({ isSaving, canSaveToLibrary, canOverwrite, onSave, onDownload }: PdfFormSaveMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger
+      className="flex h-9 items-center gap-1.5 rounded-md bg-primary px-3 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-45"
+      disabled={isSaving}
+    >
+      {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+      <span className="hidden sm:inline">Formular speichern</span>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuLabel className="text-xs">Ausgefülltes Formular</DropdownMenuLabel>
+      <DropdownMenuItem disabled={!canSaveToLibrary} onSelect={() => onSave("copy")}>
+        Als Kopie in der Bibliothek speichern
+      </DropdownMenuItem>
+      <DropdownMenuItem disabled={!canOverwrite} onSelect={() => onSave("overwrite")}>
+        Original überschreiben
+      </DropdownMenuItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuItem onSelect={onDownload}>Herunterladen</DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
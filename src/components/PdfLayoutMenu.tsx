@@ -0,0 +1,50 @@
+import { BookOpen, Columns2, GalleryHorizontal, RectangleVertical, Rows3, type LucideIcon } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { PAGE_LAYOUTS, PAGE_LAYOUT_LABELS, type PageLayout } from "@/lib/pageLayout";
+
+interface PdfLayoutMenuProps {
+  layout: PageLayout;
+  onSelect: (layout: PageLayout) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const LAYOUT_ICONS: Record<PageLayout, LucideIcon> = {
+  vertical: Rows3,
+  horizontal: GalleryHorizontal,
+  spread: Columns2,
+  book: BookOpen,
+  paged: RectangleVertical,
+};
+
+export const PdfLayoutMenu = ({ layout, onSelect, disabled, className }: PdfLayoutMenuProps) => {
+  const CurrentIcon = LAYOUT_ICONS[layout];
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className={className} disabled={disabled} aria-label="Seitenlayout">
+        <CurrentIcon className="h-4 w-4" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs">Seitenlayout</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={layout} onValueChange={(value) => onSelect(value as PageLayout)}>
+          {PAGE_LAYOUTS.map((key) => {
+            const Icon = LAYOUT_ICONS[key];
+            return (
+              <DropdownMenuRadioItem key={key} value={key} className="gap-2">
+                <Icon className="h-4 w-4 text-muted-foreground" />
+                {PAGE_LAYOUT_LABELS[key]}
+              </DropdownMenuRadioItem>
+            );
+          })}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,30 @@
+import type { PageLink } from "@/lib/pdfLinks";
+
+interface PdfLinkLayerProps {
+  links: PageLink[];
+  onActivate: (link: PageLink) => void;
+}
+
+export const PdfLinkLayer = ({ links, onActivate }: PdfLinkLayerProps) => (
+  <div className="pointer-events-none absolute inset-0 z-[2]">
+    {links.map((link) => (
+      <a
+        key={link.id}
+        href={link.url ?? "#"}
+        onClick={(e) => {
+          e.preventDefault();
+          onActivate(link);
+        }}
+        title={link.url ?? undefined}
+        aria-label={link.url ? `Link: ${link.url}` : "Interner Link"}
+        className="pointer-events-auto absolute rounded-[2px] hover:bg-primary/15"
+        style={{
+          left: `${link.left}%`,
+          top: `${link.top}%`,
+          width: `${link.width}%`,
+          height: `${link.height}%`,
+        }}
+      />
+    ))}
+  </div>
+);
@@ -0,0 +1,62 @@
+import { Download, Loader2, RotateCw, Wrench } from "lucide-react";
+import { PDF_LOAD_ERRORS, type PdfLoadErrorKind } from "@/lib/pdfLoadErrors";
+
+interface PdfLoadErrorViewProps {
+  kind: PdfLoadErrorKind;
+  onRetry?: () => void;
+  onRepair?: () => void;
+  isRepairing?: boolean;
+  onDownloadOriginal?: () => void;
+  onClose: () => void;
+}
+
+const RETRY_LABELS: Partial<Record<PdfLoadErrorKind, string>> = {
+  password: "Passwort eingeben",
+  tooLarge: "Trotzdem öffnen",
+};
+
+export const PdfLoadErrorView = ({
+  kind,
+  onRetry,
+  onRepair,
+  isRepairing = false,
+  onDownloadOriginal,
+  onClose,
+}: PdfLoadErrorViewProps) => {
+  const { title, hint } = PDF_LOAD_ERRORS[kind];
+  const secondaryClass =
+    "flex items-center gap-1.5 rounded-lg border border-border px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-muted disabled:opacity-45";
+
+  return (
+    <div role="alert" className="mt-24 flex max-w-sm flex-col items-center justify-center gap-3 px-4 text-center">
+      <p className="font-medium text-destructive">{title}</p>
+      <p className="text-sm text-muted-foreground">{hint}</p>
+      <div className="mt-2 flex flex-wrap items-center justify-center gap-2">
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="flex items-center gap-1.5 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground"
+          >
+            <RotateCw className="h-4 w-4" />
+            {RETRY_LABELS[kind] ?? "Erneut versuchen"}
+          </button>
+        )}
+        {onRepair && (
+          <button onClick={onRepair} disabled={isRepairing} className={secondaryClass}>
+            {isRepairing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wrench className="h-4 w-4" />}
+            Reparieren
+          </button>
+        )}
+        {onDownloadOriginal && (
+          <button onClick={onDownloadOriginal} className={secondaryClass}>
+            <Download className="h-4 w-4" />
+            Original herunterladen
+          </button>
+        )}
+      </div>
+      <button onClick={onClose} className="text-sm font-medium text-muted-foreground underline-offset-2 hover:underline">
+        Zurück zum Bücherregal
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import { MessageSquare } from "lucide-react";
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover";
+import {
+  NATIVE_KIND_LABELS,
+  formatCommentDate,
+  hasComment,
+  type NativeAnnotation,
+  type NativeComment,
+} from "@/lib/pdfAnnotations";
+import type { AnnotationPoint, PageSize } from "@/types/pdf";
+
+const FALLBACK_COLOR = "#facc15";
+
+const pathData = (points: AnnotationPoint[]) =>
+  points.map((point, idx) => `${idx === 0 ? "M" : "L"}${point.x.toFixed(1)} ${point.y.toFixed(1)}`).join(" ");
+
+const CommentEntry = ({ comment }: { comment: NativeComment }) => (
+  <div className="flex flex-col gap-0.5">
+    <span className="text-[10px] text-muted-foreground">
+      <span className="font-semibold text-foreground">{comment.author || "Unbekannt"}</span>
+      {comment.modifiedAt && <> · {formatCommentDate(comment.modifiedAt)}</>}
+    </span>
+    {comment.contents && <p className="whitespace-pre-wrap text-xs text-foreground">{comment.contents}</p>}
+  </div>
+);
+
+// The annotation's own comment followed by the replies to it
+export const NativeCommentThread = ({ annotation }: { annotation: NativeAnnotation }) => (
+  <div className="flex flex-col gap-2">
+    <CommentEntry comment={annotation} />
+    {annotation.replies.map((reply) => (
+      <div key={reply.id} className="border-l-2 border-border pl-2">
+        <CommentEntry comment={reply} />
+      </div>
+    ))}
+  </div>
+);
+
+interface PdfNativeAnnotationLayerProps {
+  annotations: NativeAnnotation[];
+  size: PageSize;
+  activeId: string | null;
+  onSelect: (id: string | null) => void;
+}
+
+// Annotations that came with the PDF. Whatever has an appearance stream is
+// already in the canvas; this draws the rest and adds the comment popups.
+export const PdfNativeAnnotationLayer = ({ annotations, size, activeId, onSelect }: PdfNativeAnnotationLayerProps) => {
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+  const drawn = annotations.filter((annotation) => !annotation.hasAppearance);
+
+  return (
+    <div className="pointer-events-none absolute inset-0 z-[2]">
+      {drawn.length > 0 && (
+        <svg
+          className="absolute inset-0 h-full w-full"
+          viewBox={`0 0 ${size.width} ${size.height}`}
+          preserveAspectRatio="none"
+          aria-hidden="true"
+        >
+          {drawn.map((annotation) => {
+            const color = annotation.color ?? FALLBACK_COLOR;
+            switch (annotation.kind) {
+              case "highlight":
+                return (
+                  <g key={annotation.id} fill={color} opacity={0.38} style={{ mixBlendMode: "multiply" }}>
+                    {annotation.quads.map((quad, idx) => (
+                      <rect key={idx} x={quad.x} y={quad.y} width={quad.width} height={quad.height} />
+                    ))}
+                  </g>
+                );
+              case "underline":
+              case "strikeOut":
+              case "squiggly":
+                return (
+                  <g
+                    key={annotation.id}
+                    stroke={color}
+                    strokeWidth={1}
+                    strokeDasharray={annotation.kind === "squiggly" ? "2 1" : undefined}
+                  >
+                    {annotation.quads.map((quad, idx) => {
+                      const y = annotation.kind === "strikeOut" ? quad.y + quad.height / 2 : quad.y + quad.height - 0.5;
+                      return <line key={idx} x1={quad.x} x2={quad.x + quad.width} y1={y} y2={y} />;
+                    })}
+                  </g>
+                );
+              case "ink":
+                return (
+                  <g key={annotation.id} fill="none" stroke={color} strokeWidth={1.5} strokeLinecap="round">
+                    {annotation.paths.map((path, idx) => (
+                      <path key={idx} d={pathData(path)} />
+                    ))}
+                  </g>
+                );
+              default:
+                return null;
+            }
+          })}
+        </svg>
+      )}
+
+      {drawn
+        .filter((annotation) => annotation.kind === "freeText" || annotation.kind === "stamp")
+        .map((annotation) => (
+          <div
+            key={annotation.id}
+            className={`absolute overflow-hidden ${
+              annotation.kind === "stamp"
+                ? "flex items-center justify-center rounded border-2 font-bold uppercase tracking-wide"
+                : "whitespace-pre-wrap"
+            }`}
+            style={{
+              left: percent(annotation.rect.x, size.width),
+              top: percent(annotation.rect.y, size.height),
+              width: percent(annotation.rect.width, size.width),
+              height: percent(annotation.rect.height, size.height),
+              color: annotation.kind === "stamp" ? annotation.color ?? "#dc2626" : "#000",
+              borderColor: annotation.kind === "stamp" ? annotation.color ?? "#dc2626" : undefined,
+              fontSize: "calc(var(--scale-factor, 1) * 10px)",
+              lineHeight: 1.2,
+            }}
+            aria-hidden="true"
+          >
+            {annotation.label || annotation.contents || (annotation.kind === "stamp" ? NATIVE_KIND_LABELS.stamp : "")}
+          </div>
+        ))}
+
+      {annotations.filter(hasComment).map((annotation) => {
+        const isNote = annotation.kind === "text";
+        // Sticky notes are clicked where they are; markup gets a badge at its
+        // corner so the text underneath stays selectable
+        const style = isNote
+          ? {
+              left: percent(annotation.rect.x, size.width),
+              top: percent(annotation.rect.y, size.height),
+              width: percent(Math.max(annotation.rect.width, 16), size.width),
+              height: percent(Math.max(annotation.rect.height, 16), size.height),
+            }
+          : {
+              left: percent(annotation.rect.x + annotation.rect.width, size.width),
+              top: percent(annotation.rect.y, size.height),
+            };
+        return (
+          <Popover
+            key={annotation.id}
+            open={annotation.id === activeId}
+            onOpenChange={(open) => onSelect(open ? annotation.id : null)}
+          >
+            <PopoverAnchor asChild>
+              <button
+                onClick={() => onSelect(annotation.id === activeId ? null : annotation.id)}
+                className={`pointer-events-auto absolute flex items-center justify-center rounded-sm ${
+                  isNote
+                    ? annotation.hasAppearance
+                      ? "hover:ring-2 hover:ring-primary/60"
+                      : "shadow-md ring-1 ring-black/10"
+                    : "h-4 w-4 -translate-x-1/2 -translate-y-1/2 shadow ring-1 ring-black/10"
+                }`}
+                style={{
+                  ...style,
+                  backgroundColor:
+                    isNote && annotation.hasAppearance ? undefined : annotation.color ?? FALLBACK_COLOR,
+                }}
+                aria-label={`${NATIVE_KIND_LABELS[annotation.kind]}${
+                  annotation.author ? ` von ${annotation.author}` : ""
+                }`}
+                title={annotation.contents || undefined}
+              >
+                {!(isNote && annotation.hasAppearance) && <MessageSquare className="h-2.5 w-2.5 text-black/70" />}
+              </button>
+            </PopoverAnchor>
+            <PopoverContent className="max-h-80 w-72 overflow-y-auto p-3" side="right" align="start">
+              <NativeCommentThread annotation={annotation} />
+            </PopoverContent>
+          </Popover>
+        );
+      })}
+    </div>
+  );
+};
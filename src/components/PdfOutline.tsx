@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef } from "react";
+import { ChevronRight } from "lucide-react";
+import type { OutlineNode } from "@/lib/pdfOutline";
+
+interface PdfOutlineProps {
+  nodes: OutlineNode[];
+  activePath: string[];
+  onSelect: (node: OutlineNode) => void;
+}
+
+interface OutlineItemProps extends Omit<PdfOutlineProps, "nodes"> {
+  node: OutlineNode;
+  depth: number;
+}
+
+const OutlineItem = ({ node, depth, activePath, onSelect }: OutlineItemProps) => {
+  const isActive = activePath[activePath.length - 1] === node.id;
+  const containsActive = activePath.includes(node.id);
+  const [isExpanded, setIsExpanded] = useState(depth === 0 && containsActive);
+  const itemRef = useRef<HTMLButtonElement>(null);
+
+  // Follow the reader: open the branch that holds the current section
+  useEffect(() => {
+    if (containsActive && !isActive) setIsExpanded(true);
+  }, [containsActive, isActive]);
+
+  useEffect(() => {
+    if (isActive) itemRef.current?.scrollIntoView({ block: "nearest" });
+  }, [isActive]);
+
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <li>
+      <div className="flex items-start" style={{ paddingLeft: depth * 12 }}>
+        {hasChildren ? (
+          <button
+            className="mt-1 flex h-5 w-5 shrink-0 items-center justify-center rounded text-muted-foreground hover:bg-muted"
+            onClick={() => setIsExpanded((open) => !open)}
+            aria-label={isExpanded ? "Einklappen" : "Ausklappen"}
+            aria-expanded={isExpanded}
+          >
+            <ChevronRight className={`h-3.5 w-3.5 transition-transform ${isExpanded ? "rotate-90" : ""}`} />
+          </button>
+        ) : (
+          <span className="w-5 shrink-0" />
+        )}
+        <button
+          ref={itemRef}
+          onClick={() => onSelect(node)}
+          disabled={!node.destination && !node.url}
+          aria-current={isActive ? "location" : undefined}
+          className={`flex min-w-0 flex-1 items-baseline gap-2 rounded px-1.5 py-1 text-left text-xs transition-colors disabled:cursor-default disabled:opacity-60 ${
+            isActive ? "bg-primary/10 font-semibold text-primary" : "text-foreground hover:bg-muted"
+          }`}
+        >
+          <span className="min-w-0 flex-1 break-words">{node.title}</span>
+          {node.destination && (
+            <span className="shrink-0 text-[10px] text-muted-foreground">{node.destination.pageNum}</span>
+          )}
+        </button>
+      </div>
+      {hasChildren && isExpanded && (
+        <ul>
+          {node.children.map((child) => (
+            <OutlineItem
+              key={child.id}
+              node={child}
+              depth={depth + 1}
+              activePath={activePath}
+              onSelect={onSelect}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const PdfOutline = ({ nodes, activePath, onSelect }: PdfOutlineProps) => {
+  if (nodes.length === 0) {
+    return <p className="px-3 py-4 text-xs text-muted-foreground">Dieses Dokument hat kein Inhaltsverzeichnis.</p>;
+  }
+
+  return (
+    <nav aria-label="Inhaltsverzeichnis">
+      <ul className="px-1.5 py-2">
+        {nodes.map((node) => (
+          <OutlineItem key={node.id} node={node} depth={0} activePath={activePath} onSelect={onSelect} />
+        ))}
+      </ul>
+    </nav>
+  );
+};
@@ -0,0 +1,71 @@
+import { useState, useEffect } from "react";
+import { getPageLabel, hasCustomLabel, resolvePageInput } from "@/lib/pageLabels";
+
+interface PdfPageInputProps {
+  currentPage: number;
+  numPages: number;
+  pageLabels: string[] | null;
+  onNavigate: (pageNum: number) => void;
+}
+
+export const PdfPageInput = ({ currentPage, numPages, pageLabels, onNavigate }: PdfPageInputProps) => {
+  const currentLabel = getPageLabel(currentPage, pageLabels);
+  const [draft, setDraft] = useState(currentLabel);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isInvalid, setIsInvalid] = useState(false);
+
+  useEffect(() => {
+    if (!isEditing) setDraft(currentLabel);
+  }, [currentLabel, isEditing]);
+
+  const commit = (): boolean => {
+    const pageNum = resolvePageInput(draft, pageLabels, numPages);
+    if (pageNum === null) {
+      setIsInvalid(true);
+      return false;
+    }
+    onNavigate(pageNum);
+    return true;
+  };
+
+  const revert = () => {
+    setIsInvalid(false);
+    setIsEditing(false);
+    setDraft(currentLabel);
+  };
+
+  return (
+    <div className="flex items-center gap-1.5 text-sm font-medium text-foreground">
+      <span>Seite</span>
+      <input
+        value={draft}
+        onFocus={(e) => {
+          setIsEditing(true);
+          e.target.select();
+        }}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          setIsInvalid(false);
+        }}
+        onBlur={revert}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            if (commit()) e.currentTarget.blur();
+          } else if (e.key === "Escape") {
+            e.preventDefault();
+            e.currentTarget.blur();
+          }
+        }}
+        aria-label="Seite eingeben"
+        aria-invalid={isInvalid}
+        className={`h-7 w-14 rounded-md border bg-background px-1.5 text-center text-sm outline-none focus:border-primary ${
+          isInvalid ? "border-destructive" : "border-input"
+        }`}
+      />
+      <span className="whitespace-nowrap text-muted-foreground">
+        {hasCustomLabel(currentPage, pageLabels) ? `(${currentPage} von ${numPages})` : `von ${numPages}`}
+      </span>
+    </div>
+  );
+};
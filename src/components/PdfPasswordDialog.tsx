@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Lock } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface PdfPasswordDialogProps {
+  open: boolean;
+  fileName: string;
+  // Set after a wrong password, so the prompt can say so
+  isIncorrect: boolean;
+  onSubmit: (password: string, remember: boolean) => void;
+  onCancel: () => void;
+}
+
+export const PdfPasswordDialog = ({ open, fileName, isIncorrect, onSubmit, onCancel }: PdfPasswordDialogProps) => {
+  const [password, setPassword] = useState("");
+  const [remember, setRemember] = useState(false);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (next) return;
+        setPassword("");
+        onCancel();
+      }}
+    >
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-4 w-4" />
+            Passwort erforderlich
+          </DialogTitle>
+          <DialogDescription className="break-words">
+            „{fileName}“ ist geschützt. Gib das Passwort ein, um das Dokument zu öffnen.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          id="pdf-password-form"
+          className="flex flex-col gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!password) return;
+            onSubmit(password, remember);
+            // The retry after a wrong password starts empty
+            setPassword("");
+          }}
+        >
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="pdf-password">Passwort</Label>
+            <Input
+              id="pdf-password"
+              type="password"
+              autoComplete="off"
+              autoFocus
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              aria-invalid={isIncorrect}
+              aria-describedby={isIncorrect ? "pdf-password-error" : undefined}
+            />
+            {isIncorrect && (
+              <p id="pdf-password-error" className="text-sm text-destructive">
+                Das Passwort ist falsch. Bitte versuche es erneut.
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="pdf-password-remember"
+              checked={remember}
+              onCheckedChange={(checked) => setRemember(checked === true)}
+            />
+            <Label htmlFor="pdf-password-remember" className="font-normal">
+              Für diese Sitzung merken
+            </Label>
+          </div>
+        </form>
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={() => {
+              setPassword("");
+              onCancel();
+            }}
+            className="rounded-lg px-4 py-2 text-sm font-medium text-foreground hover:bg-muted"
+          >
+            Abbrechen
+          </button>
+          <button
+            type="submit"
+            form="pdf-password-form"
+            disabled={!password}
+            className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground disabled:opacity-45"
+          >
+            Öffnen
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,34 @@
+import { MonitorPlay, Presentation } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface PdfPresentMenuProps {
+  // true to open the presenter window alongside
+  onStart: (withPresenter: boolean) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const PdfPresentMenu = ({ onStart, disabled, className }: PdfPresentMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger className={className} disabled={disabled} aria-label="Präsentieren">
+      <Presentation className="h-4 w-4" />
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuItem onSelect={() => onStart(false)} className="gap-2">
+        <Presentation className="h-4 w-4 text-muted-foreground" />
+        Präsentation starten
+        <DropdownMenuShortcut>F5</DropdownMenuShortcut>
+      </DropdownMenuItem>
+      <DropdownMenuItem onSelect={() => onStart(true)} className="gap-2">
+        <MonitorPlay className="h-4 w-4 text-muted-foreground" />
+        Mit Referentenansicht
+      </DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { renderPageThumbnail } from "@/lib/pageThumbnails";
+import type { PageRotations } from "@/lib/pageRotation";
+import type { PdfDocument, PdfRenderTask } from "@/lib/pdfjs";
+import {
+  isPresenterMessage,
+  presenterChannelName,
+  presentationAction,
+  type PresenterMessage,
+} from "@/lib/presenter";
+
+interface PdfPresentationProps {
+  pdf: PdfDocument;
+  numPages: number;
+  startPage: number;
+  title: string;
+  rotations: PageRotations;
+  // Session of the presenter window opened along with the presentation
+  presenterSession?: string | null;
+  // Called with the page shown last, so the viewer can continue there
+  onExit: (pageNum: number) => void;
+}
+
+// Width of the previews sent to the presenter window, in CSS pixels
+const PRESENTER_PREVIEW_WIDTH = 640;
+const HINT_DURATION_MS = 3000;
+
+// One page at a time, fitted to the screen, with all viewer chrome hidden.
+// Runs fullscreen where the browser allows it and as a plain overlay otherwise.
+export const PdfPresentation = ({
+  pdf,
+  numPages,
+  startPage,
+  title,
+  rotations,
+  presenterSession = null,
+  onExit,
+}: PdfPresentationProps) => {
+  const [pageNum, setPageNum] = useState(startPage);
+  const [isLaserOn, setIsLaserOn] = useState(false);
+  const [isBlank, setIsBlank] = useState(false);
+  const [isHintVisible, setIsHintVisible] = useState(true);
+  const [laser, setLaser] = useState<{ x: number; y: number } | null>(null);
+  const [screenSize, setScreenSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+  const rootRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const startedAtRef = useRef(Date.now());
+  const previewsRef = useRef<Map<number, string>>(new Map());
+  const pageNumRef = useRef(pageNum);
+  pageNumRef.current = pageNum;
+  const onExitRef = useRef(onExit);
+  onExitRef.current = onExit;
+
+  const goTo = useCallback(
+    (target: number) => {
+      setIsBlank(false);
+      setPageNum(Math.max(1, Math.min(numPages, target)));
+    },
+    [numPages]
+  );
+
+  // In fullscreen, leaving it ends the presentation through the listener below
+  const exit = useCallback(() => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => onExitRef.current(pageNumRef.current));
+    else onExitRef.current(pageNumRef.current);
+  }, []);
+
+  useEffect(() => {
+    rootRef.current?.requestFullscreen?.().catch(() => {
+      // Denied (e.g. the presenter window took focus); the overlay still
+      // covers the app and F11 makes it fullscreen
+    });
+    // Leaving fullscreen with the browser's own Escape ends the presentation
+    const onFullscreenChange = () => {
+      if (!document.fullscreenElement) onExitRef.current(pageNumRef.current);
+    };
+    document.addEventListener("fullscreenchange", onFullscreenChange);
+    return () => document.removeEventListener("fullscreenchange", onFullscreenChange);
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setIsHintVisible(false), HINT_DURATION_MS);
+    const onResize = () => setScreenSize({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener("resize", onResize);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener("resize", onResize);
+    };
+  }, []);
+
+  useEffect(() => {
+    // Capture phase, so the viewer's own shortcuts never see these keys
+    const onKeyDown = (e: KeyboardEvent) => {
+      const action = presentationAction(e);
+      if (!action) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (action === "next") goTo(pageNumRef.current + 1);
+      else if (action === "previous") goTo(pageNumRef.current - 1);
+      else if (action === "first") goTo(1);
+      else if (action === "last") goTo(numPages);
+      else if (action === "laser") setIsLaserOn((on) => !on);
+      else if (action === "blank") setIsBlank((blank) => !blank);
+      else exit();
+    };
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, [goTo, exit, numPages]);
+
+  // Draws offscreen first and copies over, so flipping doesn't flash black
+  useEffect(() => {
+    let cancelled = false;
+    let task: PdfRenderTask | null = null;
+
+    const render = async () => {
+      const page = await pdf.getPage(pageNum).catch(() => null);
+      const canvas = canvasRef.current;
+      if (!page || !canvas || cancelled) return;
+
+      const rotation = (page.rotate + (rotations.get(pageNum) ?? 0)) % 360;
+      const base = page.getViewport({ scale: 1, rotation });
+      const fit = Math.min(screenSize.width / base.width, screenSize.height / base.height);
+      const dpr = window.devicePixelRatio || 1;
+      const viewport = page.getViewport({ scale: fit * dpr, rotation });
+
+      const buffer = document.createElement("canvas");
+      buffer.width = Math.floor(viewport.width);
+      buffer.height = Math.floor(viewport.height);
+      const ctx = buffer.getContext("2d");
+      if (!ctx) return;
+
+      task = page.render({ canvasContext: ctx, viewport });
+      try {
+        await task.promise;
+      } catch (e) {
+        if ((e as Error)?.name !== "RenderingCancelledException") console.error(e);
+        return;
+      }
+      if (cancelled) return;
+      canvas.width = buffer.width;
+      canvas.height = buffer.height;
+      canvas.style.width = `${buffer.width / dpr}px`;
+      canvas.style.height = `${buffer.height / dpr}px`;
+      canvas.getContext("2d")?.drawImage(buffer, 0, 0);
+      buffer.width = 0;
+      buffer.height = 0;
+    };
+
+    render();
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdf, pageNum, rotations, screenSize]);
+
+  const preview = useCallback(
+    async (target: number) => {
+      if (target > numPages) return null;
+      const cached = previewsRef.current.get(target);
+      if (cached) return cached;
+      const url = await renderPageThumbnail(pdf, target, {
+        width: PRESENTER_PREVIEW_WIDTH,
+        rotation: rotations.get(target) ?? 0,
+      }).catch(() => null);
+      if (url) previewsRef.current.set(target, url);
+      return url;
+    },
+    [pdf, numPages, rotations]
+  );
+
+  const sendState = useCallback(async () => {
+    const channel = channelRef.current;
+    if (!channel) return;
+    const shown = pageNumRef.current;
+    const post = (message: PresenterMessage) => channelRef.current?.postMessage(message);
+    const state = { type: "state" as const, title, pageNum: shown, numPages, startedAt: startedAtRef.current };
+    // Page numbers go out right away, the previews once they're drawn
+    post({ ...state, current: previewsRef.current.get(shown) ?? null, next: previewsRef.current.get(shown + 1) ?? null });
+    const current = await preview(shown);
+    const next = await preview(shown + 1);
+    if (pageNumRef.current === shown) post({ ...state, current, next });
+  }, [title, numPages, preview]);
+
+  const sendStateRef = useRef(sendState);
+  sendStateRef.current = sendState;
+
+  useEffect(() => {
+    if (!presenterSession || typeof BroadcastChannel === "undefined") return;
+    const channel = new BroadcastChannel(presenterChannelName(presenterSession));
+    channelRef.current = channel;
+    channel.onmessage = (e: MessageEvent) => {
+      if (!isPresenterMessage(e.data)) return;
+      if (e.data.type === "ready") sendStateRef.current();
+      else if (e.data.type === "goto") goTo(e.data.pageNum);
+    };
+    return () => {
+      channel.postMessage({ type: "end" } satisfies PresenterMessage);
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [presenterSession, goTo]);
+
+  useEffect(() => {
+    sendState();
+  }, [pageNum, sendState]);
+
+  return (
+    <div
+      ref={rootRef}
+      className="fixed inset-0 z-50 flex select-none items-center justify-center overflow-hidden bg-black"
+      style={{ cursor: isLaserOn ? "none" : "default" }}
+      onClick={() => goTo(pageNum + 1)}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        goTo(pageNum - 1);
+      }}
+      onPointerMove={(e) => isLaserOn && setLaser({ x: e.clientX, y: e.clientY })}
+      onPointerLeave={() => setLaser(null)}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Präsentation, Seite ${pageNum} von ${numPages}`}
+    >
+      <canvas ref={canvasRef} className={isBlank ? "invisible" : undefined} aria-hidden="true" />
+      {isLaserOn && laser && (
+        <div
+          className="pointer-events-none fixed h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full bg-red-500"
+          style={{ left: laser.x, top: laser.y, boxShadow: "0 0 12px 4px rgb(239 68 68 / 0.7)" }}
+          aria-hidden="true"
+        />
+      )}
+      {isHintVisible && (
+        <div className="pointer-events-none absolute bottom-6 left-1/2 -translate-x-1/2 rounded-full bg-white/15 px-4 py-1.5 text-xs text-white/80">
+          Klick oder → weiter · ← zurück · L Laserpointer · B Bildschirm aus · Esc beenden
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Printer } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { parsePageRange, type PrintSelection } from "@/lib/print";
+
+interface PdfPrintDialogProps {
+  open: boolean;
+  numPages: number;
+  currentPage: number;
+  currentPageLabel: string;
+  // Pages rendered so far while preparing the print; null when idle
+  progress: { done: number; total: number } | null;
+  onPrint: (pageNums: number[]) => void;
+  // Closes the dialog, stopping the preparation if it is running
+  onCancel: () => void;
+}
+
+export const PdfPrintDialog = ({
+  open,
+  numPages,
+  currentPage,
+  currentPageLabel,
+  progress,
+  onPrint,
+  onCancel,
+}: PdfPrintDialogProps) => {
+  const [selection, setSelection] = useState<PrintSelection>("all");
+  const [range, setRange] = useState("");
+
+  const rangePages = selection === "range" ? parsePageRange(range, numPages) : null;
+  const isRangeInvalid = selection === "range" && range.trim() !== "" && !rangePages;
+  const pageNums =
+    selection === "all"
+      ? Array.from({ length: numPages }, (_, idx) => idx + 1)
+      : selection === "current"
+        ? [currentPage]
+        : rangePages;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onCancel()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Printer className="h-4 w-4" />
+            Drucken
+          </DialogTitle>
+          <DialogDescription>Welche Seiten sollen gedruckt werden?</DialogDescription>
+        </DialogHeader>
+        <form
+          id="pdf-print-form"
+          className="flex flex-col gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (pageNums && pageNums.length > 0 && !progress) onPrint(pageNums);
+          }}
+        >
+          <RadioGroup
+            value={selection}
+            onValueChange={(value) => setSelection(value as PrintSelection)}
+            disabled={!!progress}
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem id="pdf-print-all" value="all" />
+              <Label htmlFor="pdf-print-all" className="font-normal">
+                Alle Seiten ({numPages})
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem id="pdf-print-current" value="current" />
+              <Label htmlFor="pdf-print-current" className="font-normal">
+                Aktuelle Seite ({currentPageLabel})
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem id="pdf-print-range" value="range" />
+              <Label htmlFor="pdf-print-range" className="font-normal">
+                Seiten
+              </Label>
+              <Input
+                className="h-8 flex-1"
+                placeholder="z. B. 1-5, 9"
+                value={range}
+                onChange={(e) => setRange(e.target.value)}
+                onFocus={() => setSelection("range")}
+                disabled={!!progress}
+                aria-label="Seitenbereich"
+                aria-invalid={isRangeInvalid}
+                aria-describedby={isRangeInvalid ? "pdf-print-range-error" : undefined}
+              />
+            </div>
+          </RadioGroup>
+          {isRangeInvalid && (
+            <p id="pdf-print-range-error" className="text-sm text-destructive">
+              Gib Seiten zwischen 1 und {numPages} an, z. B. „1-5, 9“.
+            </p>
+          )}
+          {progress && (
+            <div className="flex flex-col gap-1.5" role="status">
+              <Progress value={(progress.done / progress.total) * 100} />
+              <p className="text-xs text-muted-foreground">
+                {progress.done} von {progress.total} Seiten vorbereitet…
+              </p>
+            </div>
+          )}
+        </form>
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-lg px-4 py-2 text-sm font-medium text-foreground hover:bg-muted"
+          >
+            Abbrechen
+          </button>
+          <button
+            type="submit"
+            form="pdf-print-form"
+            disabled={!pageNums || pageNums.length === 0 || !!progress}
+            className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground disabled:opacity-45"
+          >
+            Drucken
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,67 @@
+import { Contrast, Moon, Palette, Sun, SunMoon, type LucideIcon } from "lucide-react";
+import { useTheme } from "next-themes";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { READER_THEMES, READER_THEME_LABELS, READER_THEME_STYLES, type ReaderTheme } from "@/lib/readerTheme";
+
+interface PdfReaderThemeMenuProps {
+  theme: ReaderTheme;
+  onSelect: (theme: ReaderTheme) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const APP_THEMES: { value: string; label: string; icon: LucideIcon }[] = [
+  { value: "light", label: "Hell", icon: Sun },
+  { value: "dark", label: "Dunkel", icon: Moon },
+  { value: "system", label: "Wie das System", icon: SunMoon },
+];
+
+// Page colours for reading, plus the app's own light/dark appearance
+export const PdfReaderThemeMenu = ({ theme, onSelect, disabled, className }: PdfReaderThemeMenuProps) => {
+  const { theme: appTheme = "system", setTheme } = useTheme();
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className={className} disabled={disabled} aria-label="Farbschema">
+        {theme === "contrast" ? <Contrast className="h-4 w-4" /> : <Palette className="h-4 w-4" />}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs">Seitenfarben</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={theme} onValueChange={(value) => onSelect(value as ReaderTheme)}>
+          {READER_THEMES.map((key) => {
+            const style = READER_THEME_STYLES[key];
+            return (
+              <DropdownMenuRadioItem key={key} value={key} className="gap-2">
+                <span
+                  className="flex h-4 w-4 items-center justify-center rounded-sm border border-border text-[9px] font-bold"
+                  style={{ backgroundColor: style.background, color: key === "dark" ? "#e0e0e0" : "#000" }}
+                  aria-hidden="true"
+                >
+                  A
+                </span>
+                {READER_THEME_LABELS[key]}
+              </DropdownMenuRadioItem>
+            );
+          })}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs">Erscheinungsbild</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={appTheme} onValueChange={setTheme}>
+          {APP_THEMES.map(({ value, label, icon: Icon }) => (
+            <DropdownMenuRadioItem key={value} value={value} className="gap-2">
+              <Icon className="h-4 w-4 text-muted-foreground" />
+              {label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,74 @@
+import { Loader2, RotateCcw, RotateCw } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface PdfRotateMenuProps {
+  currentPageLabel: string;
+  hasRotation: boolean;
+  isSaving: boolean;
+  canSaveToLibrary: boolean;
+  disabled?: boolean;
+  className?: string;
+  onRotatePage: (delta: number) => void;
+  onRotateAll: (delta: number) => void;
+  onReset: () => void;
+  onSave: () => void;
+  onDownload: () => void;
+}
+
+export const PdfRotateMenu = ({
+  currentPageLabel,
+  hasRotation,
+  isSaving,
+  canSaveToLibrary,
+  disabled,
+  className,
+  onRotatePage,
+  onRotateAll,
+  onReset,
+  onSave,
+  onDownload,
+}: PdfRotateMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger className={className} disabled={disabled || isSaving} aria-label="Seiten drehen">
+      {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCw className="h-4 w-4" />}
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuLabel className="text-xs">Seite {currentPageLabel}</DropdownMenuLabel>
+      <DropdownMenuItem className="gap-2" onSelect={() => onRotatePage(-90)}>
+        <RotateCcw className="h-4 w-4 text-muted-foreground" />
+        Nach links drehen
+      </DropdownMenuItem>
+      <DropdownMenuItem className="gap-2" onSelect={() => onRotatePage(90)}>
+        <RotateCw className="h-4 w-4 text-muted-foreground" />
+        Nach rechts drehen
+      </DropdownMenuItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuLabel className="text-xs">Alle Seiten</DropdownMenuLabel>
+      <DropdownMenuItem className="gap-2" onSelect={() => onRotateAll(-90)}>
+        <RotateCcw className="h-4 w-4 text-muted-foreground" />
+        Nach links drehen
+      </DropdownMenuItem>
+      <DropdownMenuItem className="gap-2" onSelect={() => onRotateAll(90)}>
+        <RotateCw className="h-4 w-4 text-muted-foreground" />
+        Nach rechts drehen
+      </DropdownMenuItem>
+      {hasRotation && (
+        <>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem disabled={!canSaveToLibrary} onSelect={onSave}>
+            Drehung dauerhaft speichern
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={onDownload}>Gedrehte PDF herunterladen</DropdownMenuItem>
+          <DropdownMenuItem onSelect={onReset}>Drehung zurücksetzen</DropdownMenuItem>
+        </>
+      )}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
@@ -0,0 +1,146 @@
+import { useEffect, useRef } from "react";
+import { ChevronDown, ChevronUp, Loader2, X } from "lucide-react";
+import type { SearchOptions } from "@/lib/pdfSearch";
+
+interface PdfSearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  options: SearchOptions;
+  onOptionsChange: (options: SearchOptions) => void;
+  matchCount: number;
+  activeIndex: number;
+  isSearching: boolean;
+  pageCounts: Map<number, number>;
+  activePage: number | null;
+  onNext: () => void;
+  onPrevious: () => void;
+  onSelectPage: (pageNum: number) => void;
+  onClose: () => void;
+  focusToken: number;
+}
+
+const toggleClass = (active: boolean) =>
+  `h-8 rounded-md border px-2 text-xs font-semibold transition-colors ${
+    active
+      ? "border-primary bg-primary text-primary-foreground"
+      : "border-border bg-card text-muted-foreground hover:text-foreground"
+  }`;
+
+const iconButtonClass =
+  "flex h-8 w-8 items-center justify-center rounded-md text-foreground transition-colors hover:bg-muted disabled:cursor-not-allowed disabled:opacity-45";
+
+export const PdfSearchBar = ({
+  query,
+  onQueryChange,
+  options,
+  onOptionsChange,
+  matchCount,
+  activeIndex,
+  isSearching,
+  pageCounts,
+  activePage,
+  onNext,
+  onPrevious,
+  onSelectPage,
+  onClose,
+  focusToken,
+}: PdfSearchBarProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Re-focus whenever Ctrl/Cmd+F is pressed again while the bar is open
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusToken]);
+
+  const toggle = (key: keyof SearchOptions) => onOptionsChange({ ...options, [key]: !options[key] });
+
+  return (
+    <div className="z-10 flex flex-col gap-2 border-b border-border bg-card px-3 py-2">
+      <div className="flex items-center gap-2">
+        <input
+          ref={inputRef}
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              if (e.shiftKey) onPrevious();
+              else onNext();
+            } else if (e.key === "Escape") {
+              e.preventDefault();
+              onClose();
+            }
+          }}
+          placeholder="Im Dokument suchen…"
+          aria-label="Im Dokument suchen"
+          className="h-8 min-w-0 flex-1 rounded-md border border-input bg-background px-2 text-sm text-foreground outline-none focus:border-primary"
+        />
+        <span className="min-w-16 text-center text-xs text-muted-foreground" aria-live="polite">
+          {isSearching ? (
+            <Loader2 className="mx-auto h-3.5 w-3.5 animate-spin" />
+          ) : matchCount > 0 ? (
+            `${activeIndex + 1} / ${matchCount}`
+          ) : query.trim() ? (
+            "Keine Treffer"
+          ) : null}
+        </span>
+        <button className={iconButtonClass} onClick={onPrevious} disabled={matchCount === 0} aria-label="Vorheriger Treffer">
+          <ChevronUp className="h-4 w-4" />
+        </button>
+        <button className={iconButtonClass} onClick={onNext} disabled={matchCount === 0} aria-label="Nächster Treffer">
+          <ChevronDown className="h-4 w-4" />
+        </button>
+        <button className={iconButtonClass} onClick={onClose} aria-label="Suche schließen">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <button
+          className={toggleClass(options.caseSensitive)}
+          onClick={() => toggle("caseSensitive")}
+          aria-pressed={options.caseSensitive}
+          title="Groß-/Kleinschreibung beachten"
+        >
+          Aa
+        </button>
+        <button
+          className={toggleClass(options.wholeWord)}
+          onClick={() => toggle("wholeWord")}
+          aria-pressed={options.wholeWord}
+          title="Nur ganze Wörter"
+        >
+          Wort
+        </button>
+        <button
+          className={toggleClass(options.ignoreDiacritics)}
+          onClick={() => toggle("ignoreDiacritics")}
+          aria-pressed={options.ignoreDiacritics}
+          title="Umlaute und Akzente ignorieren (ä = ae)"
+        >
+          ä = ae
+        </button>
+
+        {pageCounts.size > 0 && (
+          <div className="ml-2 flex min-w-0 flex-1 gap-1 overflow-x-auto" aria-label="Treffer pro Seite">
+            {Array.from(pageCounts, ([pageNum, count]) => (
+              <button
+                key={pageNum}
+                onClick={() => onSelectPage(pageNum)}
+                className={`shrink-0 rounded-full px-2 py-0.5 text-[11px] ${
+                  pageNum === activePage
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-muted text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                S. {pageNum} ({count})
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
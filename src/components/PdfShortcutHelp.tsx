@@ -0,0 +1,48 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatCombo, VIEWER_SHORTCUTS, type ShortcutBinding } from "@/lib/shortcuts";
+
+interface PdfShortcutHelpProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const GROUPS: ShortcutBinding["group"][] = ["Navigation", "Zoom", "Ansicht", "Allgemein"];
+
+export const PdfShortcutHelp = ({ open, onOpenChange }: PdfShortcutHelpProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-h-[85vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>Tastenkürzel</DialogTitle>
+        <DialogDescription>Kürzel sind während der Eingabe in Textfelder deaktiviert.</DialogDescription>
+      </DialogHeader>
+      {GROUPS.map((group) => (
+        <section key={group} className="flex flex-col gap-1.5">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{group}</h3>
+          <dl className="flex flex-col gap-1">
+            {VIEWER_SHORTCUTS.filter((binding) => binding.group === group).map((binding) => (
+              <div key={binding.action} className="flex items-center justify-between gap-4 text-sm">
+                <dt className="text-foreground">{binding.description}</dt>
+                <dd className="flex flex-wrap justify-end gap-1">
+                  {binding.keys.map((combo) => (
+                    <kbd
+                      key={combo}
+                      className="rounded border border-border bg-muted px-1.5 py-0.5 font-mono text-[11px] text-muted-foreground"
+                    >
+                      {formatCombo(combo)}
+                    </kbd>
+                  ))}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+      ))}
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from "react";
+import type { PageSize } from "@/types/pdf";
+
+interface PdfThumbnailRailProps {
+  numPages: number;
+  pageSizes: PageSize[];
+  currentPage: number;
+  thumbnails: Map<number, string>;
+  onRequest: (pageNum: number) => void;
+  onRelease: (pageNum: number) => void;
+  onSelect: (pageNum: number) => void;
+}
+
+export const PdfThumbnailRail = ({
+  numPages,
+  pageSizes,
+  currentPage,
+  thumbnails,
+  onRequest,
+  onRelease,
+  onSelect,
+}: PdfThumbnailRailProps) => {
+  const listRef = useRef<HTMLOListElement>(null);
+  const itemRefs = useRef<Map<number, HTMLButtonElement>>(new Map());
+
+  // Only ask for thumbnails that are (nearly) on screen in the rail
+  useEffect(() => {
+    const root = listRef.current?.parentElement;
+    if (!root) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const pageNum = Number((entry.target as HTMLElement).dataset.page);
+          if (entry.isIntersecting) onRequest(pageNum);
+          else onRelease(pageNum);
+        }
+      },
+      { root, rootMargin: "200px 0px" }
+    );
+
+    itemRefs.current.forEach((node) => observer.observe(node));
+    return () => observer.disconnect();
+  }, [numPages, onRequest, onRelease]);
+
+  useEffect(() => {
+    itemRefs.current.get(currentPage)?.scrollIntoView({ block: "nearest" });
+  }, [currentPage]);
+
+  return (
+    <nav aria-label="Seitenübersicht">
+      <ol ref={listRef} className="flex flex-col items-center gap-3 px-3 py-3">
+        {Array.from({ length: numPages }, (_, idx) => idx + 1).map((pageNum) => {
+          const size = pageSizes[pageNum - 1];
+          const thumbnail = thumbnails.get(pageNum);
+          const isCurrent = pageNum === currentPage;
+          return (
+            <li key={pageNum} className="flex flex-col items-center gap-1">
+              <button
+                data-page={pageNum}
+                ref={(node) => {
+                  if (node) itemRefs.current.set(pageNum, node);
+                  else itemRefs.current.delete(pageNum);
+                }}
+                onClick={() => onSelect(pageNum)}
+                aria-label={`Seite ${pageNum}`}
+                aria-current={isCurrent ? "page" : undefined}
+                className={`w-28 overflow-hidden rounded-sm bg-white transition-shadow ${
+                  isCurrent ? "ring-2 ring-primary ring-offset-2 ring-offset-card" : "ring-1 ring-border hover:ring-primary/50"
+                }`}
+                style={{ aspectRatio: size ? `${size.width} / ${size.height}` : "3 / 4" }}
+              >
+                {thumbnail && <img src={thumbnail} alt="" className="block h-full w-full object-contain" />}
+              </button>
+              <span className={`text-[10px] ${isCurrent ? "font-semibold text-primary" : "text-muted-foreground"}`}>
+                {pageNum}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+};
@@ -1,116 +1,430 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from "react";
+import { EncryptedPDFError } from "pdf-lib";
+import { toast } from "sonner";
 import {
   ChevronLeft,
+  ChevronRight,
   ZoomIn,
   ZoomOut,
   Loader2,
+  Search,
+  ListTree,
+  GalleryVertical,
+  Undo2,
+  Keyboard,
+  X,
+  Highlighter,
+  MessageSquareText,
+  MessagesSquare,
+  Printer,
 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { PdfAnnotationMarks, PdfAnnotationOverlay } from "@/components/PdfAnnotationLayer";
+import { PdfAnnotationExportMenu } from "@/components/PdfAnnotationExportMenu";
+import { PdfAnnotationsPanel } from "@/components/PdfAnnotationsPanel";
+import { PdfAnnotationToolbar } from "@/components/PdfAnnotationToolbar";
+import { PdfCommentsPanel } from "@/components/PdfCommentsPanel";
+import { PdfFormLayer } from "@/components/PdfFormLayer";
+import { PdfFormSaveMenu } from "@/components/PdfFormSaveMenu";
+import { PdfLayoutMenu } from "@/components/PdfLayoutMenu";
+import { PdfLinkLayer } from "@/components/PdfLinkLayer";
+import { PdfLoadErrorView } from "@/components/PdfLoadErrorView";
+import { PdfPasswordDialog } from "@/components/PdfPasswordDialog";
+import { PdfPresentation } from "@/components/PdfPresentation";
+import { PdfPresentMenu } from "@/components/PdfPresentMenu";
+import { PdfPrintDialog } from "@/components/PdfPrintDialog";
+import { PdfReaderThemeMenu } from "@/components/PdfReaderThemeMenu";
+import { PdfRotateMenu } from "@/components/PdfRotateMenu";
+import { PdfNativeAnnotationLayer } from "@/components/PdfNativeAnnotationLayer";
+import { PdfZoomMenu } from "@/components/PdfZoomMenu";
+import { PdfOutline } from "@/components/PdfOutline";
+import { PdfPageInput } from "@/components/PdfPageInput";
+import { PdfSearchBar } from "@/components/PdfSearchBar";
+import { PdfShortcutHelp } from "@/components/PdfShortcutHelp";
+import { PdfThumbnailRail } from "@/components/PdfThumbnailRail";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { usePageThumbnails } from "@/hooks/use-page-thumbnails";
+import { usePdfSearch } from "@/hooks/use-pdf-search";
+import { useAnnotations } from "@/hooks/use-annotations";
+import { useNativeAnnotations } from "@/hooks/use-native-annotations";
+import { useGestureZoom } from "@/hooks/use-gesture-zoom";
+import { useSwipePaging } from "@/hooks/use-swipe-paging";
+import { useViewerShortcuts } from "@/hooks/use-viewer-shortcuts";
+import { resolveDestination } from "@/lib/pdfDestination";
+import {
+  annotationAnchor,
+  createAnnotationId,
+  selectionToPageText,
+  sortAnnotations,
+  type AnnotationTool,
+} from "@/lib/annotations";
+import {
+  annotationExportFileName,
+  annotationsToJson,
+  annotationsToMarkdown,
+  annotationsToXfdf,
+  loadPageGeometry,
+  parseAnnotationsJson,
+  parseXfdf,
+  xfdfPageNums,
+  type AnnotationExportFormat,
+} from "@/lib/annotationExchange";
+import { getPageLabel } from "@/lib/pageLabels";
+import { READER_THEME_STYLES, readReaderTheme, writeReaderTheme, type ReaderTheme } from "@/lib/readerTheme";
+import {
+  rotateAnnotationGeometry,
+  rotatePages,
+  rotatePdf,
+  rotatedSize,
+  type PageRotations,
+} from "@/lib/pageRotation";
+import {
+  SPREAD_GAP,
+  isSpreadLayout,
+  pageRows,
+  rowFitSize,
+  steppedPage,
+  type PageLayout,
+} from "@/lib/pageLayout";
+import { downloadFile, exportAnnotatedPdf } from "@/lib/pdfExport";
+import type { NativeAnnotation } from "@/lib/pdfAnnotations";
+import {
+  fillPdfForm,
+  filledFileName,
+  loadFormFields,
+  type FormField,
+  type FormSaveMode,
+  type FormValues,
+} from "@/lib/pdfForms";
+import { loadPageLinks, type PageLink } from "@/lib/pdfLinks";
+import { MAX_PDF_SIZE, classifyPdfError, repairPdf, type PdfLoadErrorKind } from "@/lib/pdfLoadErrors";
+import { AnnotationMode, openPdf, type PdfDocument, type PdfPage, type PdfRenderTask } from "@/lib/pdfjs";
+import {
+  PASSWORD_INCORRECT,
+  forgetPassword,
+  getRememberedPassword,
+  passwordKey,
+  rememberPassword,
+} from "@/lib/pdfPasswords";
+import { presenterUrl } from "@/lib/presenter";
+import { printPages, renderPrintPages } from "@/lib/print";
+import { loadOutline, findActiveOutlinePath, type OutlineNode } from "@/lib/pdfOutline";
+import { createRenderQueue } from "@/lib/renderQueue";
+import { toItemRanges } from "@/lib/pdfSearch";
+import {
+  computeZoomScale,
+  findZoomAnchor,
+  gestureZoomScale,
+  readZoomPreference,
+  writeZoomPreference,
+  zoomAnchorScroll,
+  MAX_SCALE,
+  MIN_SCALE,
+  SCALE_STEP,
+  type ZoomAnchor,
+  type ZoomMode,
+} from "@/lib/zoom";
+import {
+  bindTextSelection,
+  highlightTextLayer,
+  normalizeCopiedText,
+  renderTextLayer,
+  type HighlightRange,
+  type TextLayerTask,
+} from "@/lib/textLayer";
+import type { Annotation, AnnotationColor, PageSize, ReadingPosition, ScrollPosition } from "@/types/pdf";
 
 interface PdfViewerProps {
   file: File;
   onClose: () => void;
+  // pdf_library id the annotations are stored under
+  documentId?: string | null;
+  // Where the reader left off last time; restored once the document loads
+  initialPosition?: ReadingPosition | null;
+  onPositionChange?: (position: ReadingPosition) => void;
+  // Stores a filled-in copy of the form in the library; resolves to false
+  // when that failed
+  onSaveForm?: (file: File, mode: FormSaveMode) => Promise<boolean>;
+  // Replaces the library copy with the rotated document; resolves to false
+  // when that failed
+  onSaveRotation?: (file: File) => Promise<boolean>;
+  // Called once an encrypted document has been opened, e.g. to render the
+  // thumbnail that couldn't be made without the password
+  onUnlock?: (password: string) => void;
 }
 
-const MIN_SCALE = 0.25;
-const MAX_SCALE = 4.0;
-const SCALE_STEP = 0.1;
-const ZOOM_COOKIE_NAME = "pdfViewerZoom";
-const COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+// How far beyond the viewport pages are kept rendered (relative to its height,
+// or its width when pages run horizontally)
+const RENDER_MARGIN = "150% 0px";
+const HORIZONTAL_RENDER_MARGIN = "0px 150%";
+const MAX_PENDING_RENDERS = 8;
+const MAX_LINK_HISTORY = 50;
+// Share of the viewport height scrolled by the arrow keys
+const ARROW_SCROLL_RATIO = 0.1;
+const POSITION_SAVE_DELAY_MS = 1000;
+const RESUME_HINT_DURATION_MS = 8000;
 
-declare global {
-  interface Window {
-    pdfjsLib: any;
-  }
+type SidebarView = "outline" | "thumbnails" | "annotations" | "comments";
+
+interface PasswordPrompt {
+  isIncorrect: boolean;
+  submit: (password: string, remember: boolean) => void;
+  cancel: () => void;
 }
 
-export const PdfViewer = ({ file, onClose }: PdfViewerProps) => {
+export const PdfViewer = ({
+  file: originalFile,
+  onClose,
+  documentId = null,
+  initialPosition = null,
+  onPositionChange,
+  onSaveForm,
+  onSaveRotation,
+  onUnlock,
+}: PdfViewerProps) => {
   const [numPages, setNumPages] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
   const [scale, setScale] = useState(1.0);
   const [displayScale, setDisplayScale] = useState(1.0);
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [isFitMode, setIsFitMode] = useState(true);
+  const [error, setError] = useState<PdfLoadErrorKind | null>(null);
+  const [zoomMode, setZoomMode] = useState<ZoomMode>("fitWidth");
+  const [layout, setLayout] = useState<PageLayout>("vertical");
+  const [viewportSize, setViewportSize] = useState<{ width: number; height: number } | null>(null);
+  const [pageSizes, setPageSizes] = useState<PageSize[]>([]);
+  const [visiblePages, setVisiblePages] = useState<Set<number>>(() => new Set());
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchFocusToken, setSearchFocusToken] = useState(0);
+  const [outline, setOutline] = useState<OutlineNode[]>([]);
+  const [sidebarView, setSidebarView] = useState<SidebarView | null>(null);
+  const [pageLabels, setPageLabels] = useState<string[] | null>(null);
+  const [pageLinks, setPageLinks] = useState<Map<number, PageLink[]>>(() => new Map());
+  const [linkHistory, setLinkHistory] = useState<ScrollPosition[]>([]);
+  const [pendingExternalUrl, setPendingExternalUrl] = useState<string | null>(null);
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
+  const [resumedPage, setResumedPage] = useState<number | null>(null);
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool | null>(null);
+  const [annotationColor, setAnnotationColor] = useState<AnnotationColor>("yellow");
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const [pageFields, setPageFields] = useState<Map<number, FormField[]>>(() => new Map());
+  const [formValues, setFormValues] = useState<FormValues>({});
+  const [isFormDirty, setIsFormDirty] = useState(false);
+  const [isSavingForm, setIsSavingForm] = useState(false);
+  const [pageRotations, setPageRotations] = useState<PageRotations>(() => new Map());
+  const [isSavingRotation, setIsSavingRotation] = useState(false);
+  const [readerTheme, setReaderTheme] = useState<ReaderTheme>(readReaderTheme);
+  const [isPrintOpen, setIsPrintOpen] = useState(false);
+  const [printProgress, setPrintProgress] = useState<{ done: number; total: number } | null>(null);
+  const [presentation, setPresentation] = useState<{ startPage: number; presenterSession: string | null } | null>(
+    null
+  );
+  const [passwordPrompt, setPasswordPrompt] = useState<PasswordPrompt | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  // Both belong to the file they were made for, so opening another document
+  // starts without them
+  const [repaired, setRepaired] = useState<{ source: File; file: File } | null>(null);
+  const [largeFileAllowedFor, setLargeFileAllowedFor] = useState<File | null>(null);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const isMobile = useIsMobile();
+
+  // A repaired copy stands in for a damaged original everywhere in the viewer
+  const file = repaired?.source === originalFile ? repaired.file : originalFile;
+  const allowLargeFile = largeFileAllowedFor === originalFile;
+
+  const isHorizontal = layout === "horizontal";
+  const isPaged = layout === "paged";
+  const rows = useMemo(() => pageRows(numPages, layout), [numPages, layout]);
 
   const containerRef = useRef<HTMLDivElement>(null);
-  const pdfDocRef = useRef<any>(null);
-  const renderTaskRef = useRef<Map<number, any>>(new Map());
+  const pdfDocRef = useRef<PdfDocument | null>(null);
+  const renderTaskRef = useRef<Map<number, PdfRenderTask>>(new Map());
   const objectUrlRef = useRef<string | null>(null);
-  const fitScaleRef = useRef<number>(1.0);
+  const lastScrollPositionRef = useRef<ScrollPosition | null>(null);
+  // Whether the end of the last page is in view, saved with the position
+  const reachedEndRef = useRef(false);
+  const contentRef = useRef<HTMLDivElement>(null);
+  // Set when a pinch/ctrl+wheel gesture ends: the page point to keep under the
+  // fingers or cursor once the new scale is laid out
+  const pendingZoomAnchorRef = useRef<ZoomAnchor | null>(null);
   const canvasRefs = useRef<Map<number, HTMLCanvasElement>>(new Map());
   const pageRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+  const pageRefCallbacksRef = useRef<Map<number, (node: HTMLDivElement | null) => void>>(new Map());
+  const textLayerRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+  const textLayerTaskRef = useRef<Map<number, TextLayerTask>>(new Map());
+  // Bumped when the render queue had to drop pages, so the still visible ones get enqueued again
+  const [renderPass, setRenderPass] = useState(0);
+  const renderQueueRef = useRef(
+    createRenderQueue({ maxPending: MAX_PENDING_RENDERS, onDrained: () => setRenderPass((pass) => pass + 1) })
+  );
+  const renderedScaleRef = useRef<Map<number, number>>(new Map());
+  const pageObserverRef = useRef<IntersectionObserver | null>(null);
+  const currentPageRef = useRef(1);
+  const visiblePagesRef = useRef<Set<number>>(new Set());
+  const applyHighlightsRef = useRef<(pageNum: number) => void>(() => {});
+  const scrollToMatchRef = useRef(false);
+  const linksLoadedRef = useRef<Set<number>>(new Set());
+  const initialPositionRef = useRef(initialPosition);
+  // Where to continue once the document reopens with a file saved from here
+  const reopenAtRef = useRef<ReadingPosition | null>(null);
+  const printCancelledRef = useRef(false);
+  const positionSaveTimerRef = useRef<number | undefined>(undefined);
+  const flushPositionRef = useRef<() => void>(() => {});
+  const onUnlockRef = useRef(onUnlock);
+  onUnlockRef.current = onUnlock;
+  const pageRotationsRef = useRef(pageRotations);
+  pageRotationsRef.current = pageRotations;
 
-  const readZoomFromCookie = useCallback((): number | null => {
-    const cookie = document.cookie
-      .split(";")
-      .map((entry) => entry.trim())
-      .find((entry) => entry.startsWith(`${ZOOM_COOKIE_NAME}=`));
-
-    if (!cookie) return null;
-
-    const rawValue = cookie.split("=")[1];
-    const parsed = Number.parseFloat(decodeURIComponent(rawValue));
-    if (Number.isNaN(parsed)) return null;
+  const loadedDoc = isLoading || error ? null : pdfDocRef.current;
+  const search = usePdfSearch(loadedDoc);
+  const pageThumbnails = usePageThumbnails(loadedDoc, renderQueueRef.current);
+  const { matches: searchMatches, activeIndex: activeMatchIndex, getCachedPageText } = search;
+  const nativeAnnotations = useNativeAnnotations(loadedDoc, renderQueueRef.current);
+  const {
+    annotations,
+    addAnnotation,
+    importAnnotations,
+    updateAnnotation,
+    updateAnnotationGeometry,
+    removeAnnotation,
+  } = useAnnotations(documentId);
 
-    const normalized = Math.round(parsed * 10) / 10;
-    return Math.max(MIN_SCALE, Math.min(MAX_SCALE, normalized));
-  }, []);
-
-  const writeZoomToCookie = useCallback((nextScale: number) => {
-    document.cookie = `${ZOOM_COOKIE_NAME}=${encodeURIComponent(
-      nextScale.toFixed(1)
-    )};path=/;max-age=${COOKIE_MAX_AGE_SECONDS};SameSite=Lax`;
-  }, []);
+  const sortedAnnotations = useMemo(() => sortAnnotations(annotations), [annotations]);
+  const annotationsByPage = useMemo(() => {
+    const byPage = new Map<number, Annotation[]>();
+    for (const annotation of annotations) {
+      byPage.set(annotation.pageNum, [...(byPage.get(annotation.pageNum) ?? []), annotation]);
+    }
+    return byPage;
+  }, [annotations]);
 
   useEffect(() => {
     let cancelled = false;
+    // Leaving while the password prompt is open ends that load
+    let abortLoad: (() => void) | null = null;
 
     const load = async () => {
-      let attempts = 0;
-      while (!window.pdfjsLib && attempts < 20) {
-        await new Promise((r) => setTimeout(r, 100));
-        attempts++;
-      }
+      setIsLoading(true);
+      setError(null);
 
-      if (!window.pdfjsLib) {
-        setError("PDF-Bibliothek konnte nicht geladen werden.");
+      if (file.size > MAX_PDF_SIZE && !allowLargeFile) {
+        setError("tooLarge");
         setIsLoading(false);
         return;
       }
 
-      const pdfjsLib = window.pdfjsLib;
-      pdfjsLib.GlobalWorkerOptions.workerSrc =
-        "https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js";
-
       if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
       const url = URL.createObjectURL(file);
       objectUrlRef.current = url;
 
-      setIsLoading(true);
-      setError(null);
       setCurrentPage(1);
+      setPageSizes([]);
+      setPageLinks(new Map());
+      setPageFields(new Map());
+      setFormValues({});
+      setIsFormDirty(false);
+      setPageRotations(new Map());
+      setLinkHistory([]);
+      linksLoadedRef.current.clear();
+      visiblePagesRef.current = new Set();
+      setVisiblePages(visiblePagesRef.current);
+      renderQueueRef.current.clear();
+      renderedScaleRef.current.clear();
 
-      const savedScale = readZoomFromCookie();
-      if (savedScale !== null) {
-        setScale(savedScale);
-        setDisplayScale(savedScale);
-        setIsFitMode(false);
-      } else {
-        setScale(1);
-        setDisplayScale(1);
-        setIsFitMode(true);
-      }
+      lastScrollPositionRef.current = null;
+      setResumedPage(null);
+
+      const reopenAt = reopenAtRef.current;
+      reopenAtRef.current = null;
+      const resumeFrom = reopenAt ?? initialPositionRef.current;
+      reachedEndRef.current = resumeFrom?.reachedEnd ?? false;
+      const savedZoom = resumeFrom ? { mode: resumeFrom.zoomMode, scale: resumeFrom.zoomScale } : readZoomPreference();
+      setZoomMode(savedZoom?.mode ?? "fitWidth");
+      setScale(savedZoom?.scale ?? 1);
+      setDisplayScale(savedZoom?.scale ?? 1);
+      setLayout(resumeFrom?.layout ?? "vertical");
+
+      // Encrypted documents: try the remembered password first, then ask.
+      // pdf.js calls onPassword again after a wrong one.
+      const key = passwordKey(documentId, file);
+      let password = getRememberedPassword(key);
+      let rememberEntered = false;
+      let passwordCancelled = false;
+      const task = openPdf(url, password);
+      task.onPassword = (updatePassword: (password: string) => void, reason: number) => {
+        if (cancelled) return;
+        if (reason === PASSWORD_INCORRECT) forgetPassword(key);
+        setPasswordPrompt({
+          isIncorrect: reason === PASSWORD_INCORRECT,
+          submit: (entered, remember) => {
+            password = entered;
+            rememberEntered = remember;
+            setPasswordPrompt(null);
+            updatePassword(entered);
+          },
+          cancel: () => {
+            passwordCancelled = true;
+            setPasswordPrompt(null);
+            task.destroy();
+          },
+        });
+      };
+      let isSettled = false;
+      abortLoad = () => {
+        if (isSettled) return;
+        setPasswordPrompt(null);
+        task.destroy();
+      };
 
       try {
-        const pdf = await pdfjsLib.getDocument({ url }).promise;
+        const pdf = await task.promise;
+        isSettled = true;
         if (cancelled) return;
         pdfDocRef.current = pdf;
+        if (password) {
+          if (rememberEntered) rememberPassword(key, password);
+          onUnlockRef.current?.(password);
+        }
+
+        // Size every placeholder like page 1 until the real sizes are known
+        const firstViewport = (await pdf.getPage(1)).getViewport({ scale: 1 });
+        if (cancelled) return;
+        const fallback = { width: firstViewport.width, height: firstViewport.height };
+        setPageSizes(Array.from({ length: pdf.numPages }, () => fallback));
         setNumPages(pdf.numPages);
         setIsLoading(false);
+
+        // Picked up by the layout effect that keeps the reading position
+        if (resumeFrom && resumeFrom.pageNum <= pdf.numPages && (resumeFrom.pageNum > 1 || resumeFrom.offset > 0)) {
+          lastScrollPositionRef.current = { pageNum: resumeFrom.pageNum, offset: resumeFrom.offset };
+          setCurrentPage(resumeFrom.pageNum);
+          if (!reopenAt) setResumedPage(resumeFrom.pageNum);
+        }
+
+        const sizes: PageSize[] = [fallback];
+        for (let pageNum = 2; pageNum <= pdf.numPages; pageNum++) {
+          const page = await pdf.getPage(pageNum).catch(() => null);
+          if (cancelled) return;
+          const viewport = page?.getViewport({ scale: 1 });
+          sizes.push(viewport ? { width: viewport.width, height: viewport.height } : fallback);
+        }
+        setPageSizes(sizes);
       } catch (err) {
+        isSettled = true;
         if (cancelled) return;
-        console.error("PDF load error:", err);
-        setError("PDF konnte nicht geladen werden.");
+        if (!passwordCancelled) console.error("PDF load error:", err);
+        setError(passwordCancelled ? "password" : classifyPdfError(err));
         setIsLoading(false);
       }
     };
@@ -118,22 +432,9 @@ export const PdfViewer = ({ file, onClose }: PdfViewerProps) => {
     load();
     return () => {
       cancelled = true;
+      abortLoad?.();
     };
-  }, [file, readZoomFromCookie]);
-
-  const computeFitScale = useCallback(
-    (page: any): number => {
-      const container = containerRef.current;
-      if (!container) return 1;
-
-      const viewport = page.getViewport({ scale: 1 });
-      const containerWidth = Math.max(container.clientWidth - 24, 200);
-      const widthFitScale = containerWidth / viewport.width;
-
-      return Math.max(MIN_SCALE, Math.min(MAX_SCALE, widthFitScale));
-    },
-    []
-  );
+  }, [file, documentId, loadAttempt, allowLargeFile]);
 
   const renderSinglePage = useCallback(
     async (pageNum: number, renderScale: number) => {
@@ -145,7 +446,7 @@ export const PdfViewer = ({ file, onClose }: PdfViewerProps) => {
         previousTask.cancel();
       }
 
-      let page: any;
+      let page: PdfPage;
       try {
         page = await pdf.getPage(pageNum);
       } catch {
@@ -156,118 +457,977 @@ export const PdfViewer = ({ file, onClose }: PdfViewerProps) => {
       if (!canvas) return;
 
       const dpr = window.devicePixelRatio || 1;
-      const viewport = page.getViewport({ scale: renderScale * dpr });
+      const rotation = (page.rotate + (pageRotationsRef.current.get(pageNum) ?? 0)) % 360;
+      const viewport = page.getViewport({ scale: renderScale * dpr, rotation });
       canvas.width = viewport.width;
       canvas.height = viewport.height;
-      canvas.style.width = `${viewport.width / dpr}px`;
-      canvas.style.height = `${viewport.height / dpr}px`;
 
       const ctx = canvas.getContext("2d");
       if (!ctx) return;
 
-      const task = page.render({ canvasContext: ctx, viewport });
+      // Form widgets stay off the canvas; PdfFormLayer draws them instead
+      const task = page.render({ canvasContext: ctx, viewport, annotationMode: AnnotationMode.ENABLE_FORMS });
       renderTaskRef.current.set(pageNum, task);
 
       try {
         await task.promise;
-      } catch (e: any) {
-        if (e?.name !== "RenderingCancelledException") {
+        if (canvasRefs.current.get(pageNum) !== canvas) return;
+
+        const textContainer = textLayerRefs.current.get(pageNum);
+        if (textContainer) {
+          textLayerTaskRef.current.get(pageNum)?.cancel();
+          const textTask = renderTextLayer(page, textContainer, page.getViewport({ scale: renderScale }));
+          textLayerTaskRef.current.set(pageNum, textTask);
+          textTask.promise.then(() => applyHighlightsRef.current(pageNum)).catch(() => {});
+        }
+        renderedScaleRef.current.set(pageNum, renderScale);
+
+        if (!linksLoadedRef.current.has(pageNum)) {
+          linksLoadedRef.current.add(pageNum);
+          loadPageLinks(page).then((links) => {
+            if (links.length === 0 || pdfDocRef.current !== pdf) return;
+            setPageLinks((prev) => new Map(prev).set(pageNum, links));
+          });
+          loadFormFields(page, pageNum).then((fields) => {
+            if (fields.length === 0 || pdfDocRef.current !== pdf) return;
+            setPageFields((prev) => new Map(prev).set(pageNum, fields));
+          });
+        }
+      } catch (e) {
+        if ((e as Error)?.name !== "RenderingCancelledException") {
           console.error(e);
         }
+      } finally {
+        if (renderTaskRef.current.get(pageNum) === task) {
+          renderTaskRef.current.delete(pageNum);
+        }
       }
     },
     []
   );
 
-  const renderAllPages = useCallback(
-    async (renderScale: number) => {
-      const pdf = pdfDocRef.current;
-      if (!pdf || numPages === 0) return;
+  const releasePage = useCallback((pageNum: number) => {
+    renderQueueRef.current.cancel(pageNum);
+    renderTaskRef.current.get(pageNum)?.cancel();
+    renderTaskRef.current.delete(pageNum);
+    renderedScaleRef.current.delete(pageNum);
+    textLayerTaskRef.current.get(pageNum)?.cancel();
+    textLayerTaskRef.current.delete(pageNum);
 
-      for (let page = 1; page <= numPages; page++) {
-        await renderSinglePage(page, renderScale);
-      }
-    },
-    [numPages, renderSinglePage]
+    // Shrinking the backing store frees the bitmap right away instead of
+    // waiting for the detached canvas to be garbage collected
+    const canvas = canvasRefs.current.get(pageNum);
+    if (canvas) {
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+  }, []);
+
+  // Fit modes follow the page being read, so an A3 foldout in an A4 manual
+  // is fitted on its own terms instead of by page 1. Spreads fit both pages.
+  const displaySizes = useMemo(
+    () => pageSizes.map((size, idx) => rotatedSize(size, pageRotations.get(idx + 1) ?? 0)),
+    [pageSizes, pageRotations]
+  );
+  const fitSize = useMemo(
+    () => rowFitSize(rows, currentPage, displaySizes, layout),
+    [rows, currentPage, displaySizes, layout]
   );
 
   useEffect(() => {
     if (isLoading || error || numPages === 0) return;
 
-    const doRender = async () => {
-      const pdf = pdfDocRef.current;
-      if (!pdf) return;
+    if (zoomMode === "custom" || !fitSize || !viewportSize) {
+      setDisplayScale(scale);
+      return;
+    }
 
-      const firstPage = await pdf.getPage(1).catch(() => null);
-      if (!firstPage) return;
+    const next = computeZoomScale(zoomMode, fitSize, viewportSize);
+    setScale(next);
+    setDisplayScale(next);
+  }, [isLoading, error, numPages, scale, zoomMode, fitSize, viewportSize]);
 
-      let activeScale = scale;
-      if (isFitMode) {
-        const fit = computeFitScale(firstPage);
-        fitScaleRef.current = fit;
-        activeScale = fit;
-        setScale(fit);
-        setDisplayScale(fit);
-      } else {
-        setDisplayScale(scale);
-      }
+  useEffect(() => {
+    currentPageRef.current = currentPage;
+  }, [currentPage]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (isLoading || error || !container) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const next = new Set(visiblePagesRef.current);
+        let changed = false;
+        for (const entry of entries) {
+          const pageNum = Number((entry.target as HTMLElement).dataset.page);
+          if (entry.isIntersecting && !next.has(pageNum)) {
+            next.add(pageNum);
+            changed = true;
+          } else if (!entry.isIntersecting && next.delete(pageNum)) {
+            releasePage(pageNum);
+            changed = true;
+          }
+        }
+        if (!changed) return;
+        visiblePagesRef.current = next;
+        setVisiblePages(next);
+      },
+      { root: container, rootMargin: isHorizontal ? HORIZONTAL_RENDER_MARGIN : RENDER_MARGIN }
+    );
 
-      await renderAllPages(activeScale);
+    pageObserverRef.current = observer;
+    pageRefs.current.forEach((node) => observer.observe(node));
+
+    return () => {
+      observer.disconnect();
+      pageObserverRef.current = null;
     };
+  }, [isLoading, error, isHorizontal, releasePage]);
 
-    doRender();
-  }, [isLoading, error, numPages, scale, isFitMode, computeFitScale, renderAllPages]);
+  // Stable per page, so it only runs when a page element really mounts or
+  // unmounts. Paged mode and spreads swap page elements, and a page that
+  // leaves the DOM never reports that it stopped intersecting.
+  const pageRef = (pageNum: number) => {
+    let callback = pageRefCallbacksRef.current.get(pageNum);
+    if (!callback) {
+      callback = (node) => {
+        const previous = pageRefs.current.get(pageNum);
+        if (previous) pageObserverRef.current?.unobserve(previous);
+        if (node) {
+          pageRefs.current.set(pageNum, node);
+          pageObserverRef.current?.observe(node);
+          return;
+        }
+        pageRefs.current.delete(pageNum);
+        if (!visiblePagesRef.current.has(pageNum)) return;
+        const next = new Set(visiblePagesRef.current);
+        next.delete(pageNum);
+        visiblePagesRef.current = next;
+        setVisiblePages(next);
+        releasePage(pageNum);
+      };
+      pageRefCallbacksRef.current.set(pageNum, callback);
+    }
+    return callback;
+  };
 
+  // Render visible pages that are missing or stale, nearest to the current page first
   useEffect(() => {
-    if (!isFitMode) return;
+    if (isLoading || error) return;
 
-    const observer = new ResizeObserver(async () => {
-      const pdf = pdfDocRef.current;
-      if (!pdf) return;
-      const firstPage = await pdf.getPage(1).catch(() => null);
-      if (!firstPage) return;
+    const queue = renderQueueRef.current;
+    const anchor = currentPageRef.current;
+    visiblePages.forEach((pageNum) => {
+      if (renderedScaleRef.current.get(pageNum) === displayScale) return;
+      queue.enqueue(pageNum, Math.abs(pageNum - anchor), () =>
+        renderSinglePage(pageNum, displayScale)
+      );
+    });
+  }, [isLoading, error, visiblePages, displayScale, pageRotations, renderSinglePage, renderPass]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
 
-      const fit = computeFitScale(firstPage);
-      fitScaleRef.current = fit;
-      setScale(fit);
-      setDisplayScale(fit);
+    const observer = new ResizeObserver(() => {
+      setViewportSize((prev) =>
+        prev && prev.width === container.clientWidth && prev.height === container.clientHeight
+          ? prev
+          : { width: container.clientWidth, height: container.clientHeight }
+      );
     });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
 
-    if (containerRef.current) {
-      observer.observe(containerRef.current);
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    return bindTextSelection(container);
+  }, []);
+
+  const applyHighlights = useCallback(
+    (pageNum: number) => {
+      const task = textLayerTaskRef.current.get(pageNum);
+      if (!task) return;
+
+      const ranges: HighlightRange[] = [];
+      const pageText = getCachedPageText(pageNum);
+      if (isSearchOpen && pageText) {
+        searchMatches.forEach((match, index) => {
+          if (match.pageNum !== pageNum) return;
+          for (const range of toItemRanges(pageText, match.start, match.end)) {
+            ranges.push({ ...range, selected: index === activeMatchIndex });
+          }
+        });
+      }
+
+      const selected = highlightTextLayer(task, ranges);
+      if (selected && scrollToMatchRef.current) {
+        scrollToMatchRef.current = false;
+        selected.scrollIntoView({ block: "center", inline: "nearest" });
+      }
+    },
+    [isSearchOpen, searchMatches, activeMatchIndex, getCachedPageText]
+  );
+
+  const activeMatch = isSearchOpen ? searchMatches[activeMatchIndex] : undefined;
+
+  // Bring the page of the active hit into view; once its text layer is
+  // rendered, applyHighlights centres the hit itself
+  useEffect(() => {
+    if (!activeMatch) return;
+    scrollToMatchRef.current = true;
+    if (isPaged) {
+      lastScrollPositionRef.current = { pageNum: activeMatch.pageNum, offset: 0 };
+      setCurrentPage(activeMatch.pageNum);
+    } else {
+      pageRefs.current.get(activeMatch.pageNum)?.scrollIntoView({ block: "center", inline: "center" });
     }
+  }, [activeMatch, isPaged]);
 
-    return () => observer.disconnect();
-  }, [computeFitScale, isFitMode]);
+  useEffect(() => {
+    applyHighlightsRef.current = applyHighlights;
+    textLayerTaskRef.current.forEach((_, pageNum) => applyHighlights(pageNum));
+  }, [applyHighlights]);
+
+  const openSearch = () => {
+    setIsSearchOpen(true);
+    setSearchFocusToken((token) => token + 1);
+  };
+
+  const selectSearchPage = (pageNum: number) => {
+    const index = searchMatches.findIndex((match) => match.pageNum === pageNum);
+    if (index !== -1) search.setActiveIndex(index);
+  };
+
+  const handleCopy = useCallback((e: React.ClipboardEvent) => {
+    const selection = window.getSelection()?.toString();
+    if (!selection) return;
+    e.preventDefault();
+    e.clipboardData.setData("text/plain", normalizeCopiedText(selection));
+  }, []);
 
   useEffect(() => {
+    const queue = renderQueueRef.current;
+    const tasks = renderTaskRef.current;
+    const textTasks = textLayerTaskRef.current;
     return () => {
+      queue.clear();
+      tasks.forEach((task) => task.cancel());
+      textTasks.forEach((task) => task.cancel());
       if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
     };
   }, []);
 
-  const zoomIn = () => {
-    setIsFitMode(false);
-    const next = Math.min(MAX_SCALE, +(scale + SCALE_STEP).toFixed(1));
-    setScale(next);
-    setDisplayScale(next);
-    writeZoomToCookie(next);
+  useEffect(() => {
+    const pdf = pdfDocRef.current;
+    setOutline([]);
+    setPageLabels(null);
+    if (isLoading || error || !pdf) return;
+
+    let cancelled = false;
+    loadOutline(pdf).then((nodes) => {
+      if (!cancelled) setOutline(nodes);
+    });
+    pdf
+      .getPageLabels()
+      .then((labels: string[] | null) => {
+        if (!cancelled) setPageLabels(labels);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoading, error]);
+
+  // Scrolls so that `top` (PDF user space, origin bottom-left) of the page sits
+  // at the top of the viewport, or the page itself when no position is given.
+  // On a rotated page `top` no longer runs down the screen, so it goes to the page.
+  const scrollToPosition = useCallback(
+    (pageNum: number, top: number | null = null) => {
+      const size = pageSizes[pageNum - 1];
+      const isRotated = pageRotations.has(pageNum);
+      const offsetInPage =
+        top !== null && size && !isRotated ? Math.max(0, (size.height - top) * displayScale) : 0;
+
+      // Paged mode only mounts the current page; the layout effect below
+      // scrolls once the new one is there
+      if (isPaged && pageNum !== currentPageRef.current) {
+        lastScrollPositionRef.current = {
+          pageNum,
+          offset: size ? Math.max(0, offsetInPage - 12) / (size.height * displayScale) : 0,
+        };
+        setCurrentPage(pageNum);
+        return;
+      }
+
+      const container = containerRef.current;
+      const pageElement = pageRefs.current.get(pageNum);
+      if (!container || !pageElement) return;
+
+      const pageRect = pageElement.getBoundingClientRect();
+      const containerRect = container.getBoundingClientRect();
+      container.scrollTo({
+        top: pageRect.top - containerRect.top + container.scrollTop + offsetInPage - 12,
+        left: isHorizontal ? pageRect.left - containerRect.left + container.scrollLeft - 12 : undefined,
+      });
+    },
+    [pageSizes, pageRotations, displayScale, isPaged, isHorizontal]
+  );
+
+  // Positions run along the scroll direction: the first page that reaches
+  // into the viewport and how far it is scrolled past
+  const getScrollPosition = useCallback((): ScrollPosition | null => {
+    const container = containerRef.current;
+    if (!container) return null;
+
+    const containerRect = container.getBoundingClientRect();
+    const edge = isHorizontal ? containerRect.left : containerRect.top;
+    for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+      const rect = pageRefs.current.get(pageNum)?.getBoundingClientRect();
+      if (!rect) continue;
+      const [start, end, extent] = isHorizontal ? [rect.left, rect.right, rect.width] : [rect.top, rect.bottom, rect.height];
+      if (end <= edge) continue;
+      const offset = extent > 0 ? Math.max(0, (edge - start) / extent) : 0;
+      return { pageNum, offset };
+    }
+    return null;
+  }, [numPages, isHorizontal]);
+
+  // Whether the end of the last page is in view, which finishes the document
+  const isEndInView = () => {
+    const container = containerRef.current;
+    const rect = pageRefs.current.get(numPages)?.getBoundingClientRect();
+    if (!container || !rect) return false;
+    const containerRect = container.getBoundingClientRect();
+    return isHorizontal ? rect.right <= containerRect.right + 1 : rect.bottom <= containerRect.bottom + 1;
   };
 
-  const zoomOut = () => {
-    setIsFitMode(false);
-    const next = Math.max(MIN_SCALE, +(scale - SCALE_STEP).toFixed(1));
-    setScale(next);
-    setDisplayScale(next);
-    writeZoomToCookie(next);
+  const restoreScrollPosition = useCallback(
+    (position: ScrollPosition) => {
+      const container = containerRef.current;
+      const pageElement = pageRefs.current.get(position.pageNum);
+      if (!container || !pageElement) return;
+
+      const rect = pageElement.getBoundingClientRect();
+      const containerRect = container.getBoundingClientRect();
+      if (isHorizontal) {
+        container.scrollTo({ left: rect.left - containerRect.left + container.scrollLeft + position.offset * rect.width });
+      } else {
+        container.scrollTo({ top: rect.top - containerRect.top + container.scrollTop + position.offset * rect.height });
+      }
+    },
+    [isHorizontal]
+  );
+
+  // In paged mode the page being shown; flipping restores its position too
+  const pagedPage = isPaged ? currentPage : null;
+
+  // Keep the reading position when the scale or layout changes instead of
+  // letting the browser hold scrollTop, which would drift pages away under
+  // the reader
+  useLayoutEffect(() => {
+    const anchor = pendingZoomAnchorRef.current;
+    const container = containerRef.current;
+    if (anchor && container) {
+      pendingZoomAnchorRef.current = null;
+      if (contentRef.current) contentRef.current.style.transform = "";
+      const rect = pageRefs.current.get(anchor.pageNum)?.getBoundingClientRect();
+      if (rect) container.scrollBy(zoomAnchorScroll(anchor, rect));
+      lastScrollPositionRef.current = getScrollPosition();
+      return;
+    }
+    const position = lastScrollPositionRef.current;
+    if (position) restoreScrollPosition(position);
+  }, [displayScale, displaySizes, layout, pagedPage, restoreScrollPosition, getScrollPosition]);
+
+  flushPositionRef.current = () => {
+    const position = lastScrollPositionRef.current;
+    if (!position || !onPositionChange) return;
+    onPositionChange({
+      ...position,
+      zoomMode,
+      zoomScale: displayScale,
+      layout,
+      pageCount: numPages,
+      reachedEnd: reachedEndRef.current,
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  const schedulePositionSave = () => {
+    window.clearTimeout(positionSaveTimerRef.current);
+    positionSaveTimerRef.current = window.setTimeout(() => flushPositionRef.current(), POSITION_SAVE_DELAY_MS);
+  };
+
+  // Save once more on the way out, so closing right after scrolling still counts
+  useEffect(() => {
+    const flushPosition = flushPositionRef;
+    const saveTimer = positionSaveTimerRef;
+    return () => {
+      window.clearTimeout(saveTimer.current);
+      flushPosition.current();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (resumedPage === null) return;
+    const timer = window.setTimeout(() => setResumedPage(null), RESUME_HINT_DURATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [resumedPage]);
+
+  const followLink = async (link: PageLink) => {
+    if (link.url) {
+      setPendingExternalUrl(link.url);
+      return;
+    }
+
+    const pdf = pdfDocRef.current;
+    let target: { pageNum: number; top: number | null } | null = null;
+    if (link.dest) {
+      target = await resolveDestination(pdf, link.dest);
+    } else if (link.action) {
+      const actionPages: Record<string, number> = {
+        FirstPage: 1,
+        LastPage: numPages,
+        NextPage: Math.min(numPages, currentPage + 1),
+        PrevPage: Math.max(1, currentPage - 1),
+      };
+      const pageNum = actionPages[link.action];
+      if (pageNum) target = { pageNum, top: null };
+    }
+    if (!target) return;
+
+    const origin = getScrollPosition();
+    if (origin) setLinkHistory((prev) => [...prev, origin].slice(-MAX_LINK_HISTORY));
+    scrollToPosition(target.pageNum, target.top);
+  };
+
+  const goBack = () => {
+    const position = linkHistory[linkHistory.length - 1];
+    if (!position) return;
+    setLinkHistory((prev) => prev.slice(0, -1));
+    // As in scrollToPosition, paged mode restores once the page is mounted
+    if (isPaged && position.pageNum !== currentPageRef.current) {
+      lastScrollPositionRef.current = position;
+      setCurrentPage(position.pageNum);
+      return;
+    }
+    restoreScrollPosition(position);
+  };
+
+  const openExternalUrl = () => {
+    if (pendingExternalUrl) window.open(pendingExternalUrl, "_blank", "noopener,noreferrer");
+    setPendingExternalUrl(null);
+  };
+
+  const activeOutlinePath = useMemo(() => findActiveOutlinePath(outline, currentPage), [outline, currentPage]);
+
+  const selectOutlineNode = (node: OutlineNode) => {
+    if (node.destination) {
+      scrollToPosition(node.destination.pageNum, node.destination.top);
+    } else if (node.url) {
+      window.open(node.url, "_blank", "noopener,noreferrer");
+    }
+    if (isMobile) setSidebarView(null);
   };
 
+  const selectThumbnail = (pageNum: number) => {
+    scrollToPosition(pageNum);
+    if (isMobile) setSidebarView(null);
+  };
+
+  const selectAnnotation = (annotation: Annotation) => {
+    setActiveAnnotationId(annotation.id);
+    const size = pageSizes[annotation.pageNum - 1];
+    // scrollToPosition takes PDF coordinates (origin bottom left)
+    if (size) scrollToPosition(annotation.pageNum, size.height - annotationAnchor(annotation).y + 16);
+    if (isMobile) setSidebarView(null);
+  };
+
+  const selectComment = (annotation: NativeAnnotation) => {
+    setActiveCommentId(annotation.id);
+    const size = pageSizes[annotation.pageNum - 1];
+    if (size) scrollToPosition(annotation.pageNum, size.height - annotation.rect.y + 16);
+    if (isMobile) setSidebarView(null);
+  };
+
+  const removeAnnotationById = (id: string) => {
+    removeAnnotation(id);
+    if (activeAnnotationId === id) setActiveAnnotationId(null);
+  };
+
+  const createAnnotation = (annotation: Annotation) => {
+    addAnnotation(annotation);
+    if (annotation.type === "note") {
+      setActiveAnnotationId(annotation.id);
+      setAnnotationTool(null);
+    }
+  };
+
+  // With the highlighter active, finishing a text selection highlights it
+  const highlightSelection = () => {
+    const selection = window.getSelection();
+    if (annotationTool !== "highlight" || !selection || selection.isCollapsed || selection.rangeCount === 0) return;
+
+    const pages = new Map<number, { element: HTMLElement; textLayer: HTMLElement; rotation?: number }>();
+    textLayerRefs.current.forEach((textLayer, pageNum) => {
+      const element = pageRefs.current.get(pageNum);
+      if (element) pages.set(pageNum, { element, textLayer, rotation: pageRotations.get(pageNum) });
+    });
+
+    const now = new Date().toISOString();
+    for (const { pageNum, rects, quote } of selectionToPageText(selection.getRangeAt(0), pages, displayScale)) {
+      addAnnotation({
+        id: createAnnotationId(),
+        type: "highlight",
+        pageNum,
+        color: annotationColor,
+        note: "",
+        rects,
+        quote,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+    selection.removeAllRanges();
+  };
+
+  const exportWithAnnotations = async (flatten: boolean) => {
+    setIsExporting(true);
+    try {
+      const exported = await exportAnnotatedPdf(await file.arrayBuffer(), sortedAnnotations, file.name, { flatten });
+      downloadFile(exported);
+    } catch (err) {
+      console.error("PDF export error:", err);
+      toast.error(
+        err instanceof EncryptedPDFError
+          ? "Verschlüsselte PDFs können nicht mit Anmerkungen exportiert werden."
+          : "Die PDF konnte nicht exportiert werden."
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const exportAnnotationData = async (format: AnnotationExportFormat) => {
+    const fileName = annotationExportFileName(file.name, format);
+    try {
+      let content: string;
+      let type: string;
+      if (format === "markdown") {
+        content = annotationsToMarkdown(file.name, sortedAnnotations, outline, pageLabels);
+        type = "text/markdown";
+      } else if (format === "json") {
+        content = annotationsToJson(file.name, sortedAnnotations, numPages);
+        type = "application/json";
+      } else {
+        const geometry = await loadPageGeometry(
+          pdfDocRef.current,
+          sortedAnnotations.map((annotation) => annotation.pageNum)
+        );
+        content = annotationsToXfdf(file.name, sortedAnnotations, geometry);
+        type = "application/vnd.adobe.xfdf";
+      }
+      downloadFile(new File([content], fileName, { type }));
+    } catch (err) {
+      console.error("Annotation export error:", err);
+      toast.error("Die Anmerkungen konnten nicht exportiert werden.");
+    }
+  };
+
+  const importAnnotationFile = async (source: File) => {
+    try {
+      const text = await source.text();
+      const imported = text.trimStart().startsWith("{")
+        ? parseAnnotationsJson(text)
+        : parseXfdf(
+            text,
+            numPages,
+            await loadPageGeometry(pdfDocRef.current, xfdfPageNums(text, numPages))
+          );
+      if (!imported) {
+        toast.error("Die Datei ist weder ein Anmerkungs-Export (JSON) noch XFDF.");
+        return;
+      }
+      const added = importAnnotations(imported.filter((annotation) => annotation.pageNum <= numPages));
+      toast.success(
+        added === 0
+          ? "Keine neuen Anmerkungen gefunden."
+          : `${added} ${added === 1 ? "Anmerkung" : "Anmerkungen"} importiert.`
+      );
+    } catch (err) {
+      console.error("Annotation import error:", err);
+      toast.error("Die Anmerkungen konnten nicht importiert werden.");
+    }
+  };
+
+  const changeFormValue = (name: string, value: string) => {
+    setFormValues((prev) => ({ ...prev, [name]: value }));
+    setIsFormDirty(true);
+  };
+
+  // Remembers the current position for when a saved file replaces the open one
+  const keepPositionOnReopen = () => {
+    const position = lastScrollPositionRef.current;
+    reopenAtRef.current = position && {
+      ...position,
+      zoomMode,
+      zoomScale: displayScale,
+      layout,
+      pageCount: numPages,
+      reachedEnd: reachedEndRef.current,
+      updatedAt: new Date().toISOString(),
+    };
+  };
+
+  const canSaveToLibrary = !!onSaveForm;
+  const canOverwrite = canSaveToLibrary && !!documentId && !documentId.startsWith("temp-");
+
+  const fillForm = async (name: string) => {
+    const fields = Array.from(pageFields.values()).flat();
+    return fillPdfForm(await file.arrayBuffer(), formValues, fields, name);
+  };
+
+  // Saving over the original reopens the viewer with the saved file
+  const saveForm = async (mode: FormSaveMode) => {
+    if (!onSaveForm) return;
+    setIsSavingForm(true);
+    try {
+      const filled = await fillForm(mode === "copy" ? filledFileName(file.name) : file.name);
+      if (mode === "overwrite") keepPositionOnReopen();
+      if (await onSaveForm(filled, mode)) {
+        setIsFormDirty(false);
+        toast.success(mode === "copy" ? `„${filled.name}“ wurde zur Bibliothek hinzugefügt.` : "Das Formular wurde gespeichert.");
+      } else {
+        reopenAtRef.current = null;
+        toast.error("Das Formular konnte nicht in der Bibliothek gespeichert werden.");
+      }
+    } catch (err) {
+      console.error("Form save error:", err);
+      reopenAtRef.current = null;
+      toast.error(
+        err instanceof EncryptedPDFError
+          ? "Verschlüsselte PDFs können nicht gespeichert werden."
+          : "Das ausgefüllte Formular konnte nicht erstellt werden."
+      );
+    } finally {
+      setIsSavingForm(false);
+    }
+  };
+
+  const downloadForm = async () => {
+    setIsSavingForm(true);
+    try {
+      downloadFile(await fillForm(filledFileName(file.name)));
+    } catch (err) {
+      console.error("Form export error:", err);
+      toast.error("Das ausgefüllte Formular konnte nicht erstellt werden.");
+    } finally {
+      setIsSavingForm(false);
+    }
+  };
+
+  const changeReaderTheme = (theme: ReaderTheme) => {
+    setReaderTheme(theme);
+    writeReaderTheme(theme);
+  };
+
+  const canSaveRotation = !!onSaveRotation && !!documentId && !documentId.startsWith("temp-");
+
+  const applyRotation = (next: PageRotations, changed: number[]) => {
+    // Changed pages render again at their new angle
+    changed.forEach((pageNum) => renderedScaleRef.current.delete(pageNum));
+    lastScrollPositionRef.current = getScrollPosition();
+    setPageRotations(next);
+  };
+
+  const rotateCurrentPage = (delta: number) => {
+    applyRotation(rotatePages(pageRotations, [currentPage], delta), [currentPage]);
+  };
+
+  const rotateAllPages = (delta: number) => {
+    const all = Array.from({ length: numPages }, (_, idx) => idx + 1);
+    applyRotation(rotatePages(pageRotations, all, delta), all);
+  };
+
+  const resetRotation = () => {
+    applyRotation(new Map(), Array.from(pageRotations.keys()));
+  };
+
+  const saveRotation = async () => {
+    if (!onSaveRotation) return;
+    setIsSavingRotation(true);
+    try {
+      const rotated = await rotatePdf(await file.arrayBuffer(), pageRotations, file.name);
+      keepPositionOnReopen();
+      if (!(await onSaveRotation(rotated))) {
+        reopenAtRef.current = null;
+        toast.error("Die gedrehte PDF konnte nicht in der Bibliothek gespeichert werden.");
+        return;
+      }
+      // Own annotations are stored in page units of the unrotated page, so
+      // they are turned along with it
+      for (const annotation of annotations) {
+        const rotation = pageRotations.get(annotation.pageNum);
+        const size = pageSizes[annotation.pageNum - 1];
+        if (rotation && size) {
+          updateAnnotationGeometry(annotation.id, rotateAnnotationGeometry(annotation, size, rotation));
+        }
+      }
+      toast.success("Die Drehung wurde gespeichert.");
+    } catch (err) {
+      console.error("Rotation save error:", err);
+      reopenAtRef.current = null;
+      toast.error(
+        err instanceof EncryptedPDFError
+          ? "Verschlüsselte PDFs können nicht gespeichert werden."
+          : "Die gedrehte PDF konnte nicht erstellt werden."
+      );
+    } finally {
+      setIsSavingRotation(false);
+    }
+  };
+
+  const downloadRotated = async () => {
+    setIsSavingRotation(true);
+    try {
+      downloadFile(await rotatePdf(await file.arrayBuffer(), pageRotations, file.name));
+    } catch (err) {
+      console.error("Rotation export error:", err);
+      toast.error(
+        err instanceof EncryptedPDFError
+          ? "Verschlüsselte PDFs können nicht gespeichert werden."
+          : "Die gedrehte PDF konnte nicht erstellt werden."
+      );
+    } finally {
+      setIsSavingRotation(false);
+    }
+  };
+
+  const retryLoad = () => {
+    if (error === "tooLarge") setLargeFileAllowedFor(originalFile);
+    else setLoadAttempt((attempt) => attempt + 1);
+  };
+
+  const repairDocument = async () => {
+    setIsRepairing(true);
+    try {
+      const fixed = await repairPdf(await originalFile.arrayBuffer(), originalFile.name);
+      if (!fixed) {
+        toast.error("Die Datei konnte nicht repariert werden.");
+        return;
+      }
+      setRepaired({ source: originalFile, file: fixed });
+      toast.success("Die Datei wurde repariert. Einzelne Seiten können unvollständig sein.", {
+        action: { label: "Herunterladen", onClick: () => downloadFile(fixed) },
+      });
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  const toggleAnnotating = () => {
+    setIsAnnotating((open) => !open);
+    setAnnotationTool(isAnnotating ? null : "highlight");
+  };
+
+  const toggleSidebar = (view: SidebarView) => {
+    setSidebarView((current) => (current === view ? null : view));
+  };
+
+  const applyZoom = (mode: ZoomMode, nextScale = scale) => {
+    setZoomMode(mode);
+    if (mode === "custom") {
+      setScale(nextScale);
+      setDisplayScale(nextScale);
+    }
+    writeZoomPreference({ mode, scale: nextScale });
+  };
+
+  const zoomAtPoint = (rawScale: number, clientX: number, clientY: number) => {
+    const nextScale = gestureZoomScale(rawScale);
+    if (nextScale === displayScale) {
+      if (contentRef.current) contentRef.current.style.transform = "";
+      return;
+    }
+    // Read while the gesture transform is still applied, which gives exactly
+    // the spot the reader sees under their fingers
+    const pages = Array.from(pageRefs.current, ([pageNum, element]): [number, DOMRect] => [
+      pageNum,
+      element.getBoundingClientRect(),
+    ]);
+    pendingZoomAnchorRef.current = findZoomAnchor(pages, clientX, clientY);
+    if (!pendingZoomAnchorRef.current && contentRef.current) contentRef.current.style.transform = "";
+    applyZoom("custom", nextScale);
+  };
+
+  useGestureZoom({
+    containerRef,
+    contentRef,
+    scale: displayScale,
+    minScale: MIN_SCALE,
+    maxScale: MAX_SCALE,
+    onZoomEnd: zoomAtPoint,
+    enabled: !isLoading && !error,
+  });
+
+  const zoomIn = () => applyZoom("custom", Math.min(MAX_SCALE, +(scale + SCALE_STEP).toFixed(1)));
+
+  const zoomOut = () => applyZoom("custom", Math.max(MIN_SCALE, +(scale - SCALE_STEP).toFixed(1)));
+
+  const goToPage = (pageNum: number) => {
+    scrollToPosition(Math.max(1, Math.min(numPages, pageNum)));
+  };
+
+  // Next or previous page, or pair of pages in the spread layouts
+  const flipPage = (direction: 1 | -1) => goToPage(steppedPage(rows, currentPage, direction));
+
+  const changeLayout = (next: PageLayout) => {
+    const position = getScrollPosition();
+    if (position) {
+      lastScrollPositionRef.current = position;
+      if (next === "paged") setCurrentPage(position.pageNum);
+    }
+    setLayout(next);
+    schedulePositionSave();
+  };
+
+  useSwipePaging({
+    containerRef,
+    onSwipe: flipPage,
+    enabled: isPaged && !isLoading && !error && !annotationTool,
+  });
+
+  const scrollByArrow = (direction: 1 | -1) => {
+    const container = containerRef.current;
+    if (container) container.scrollBy({ top: direction * container.clientHeight * ARROW_SCROLL_RATIO });
+  };
+
+  // Escape closes the innermost open thing first and only then leaves the viewer
+  const closeTopmost = () => {
+    if (isSearchOpen) setIsSearchOpen(false);
+    else if (activeAnnotationId) setActiveAnnotationId(null);
+    else if (activeCommentId) setActiveCommentId(null);
+    else if (isAnnotating) {
+      setIsAnnotating(false);
+      setAnnotationTool(null);
+    } else if (sidebarView) setSidebarView(null);
+    else onClose();
+  };
+
+  // The presenter window has to open within the click, before any await,
+  // or popup blockers step in
+  const startPresentation = (withPresenter: boolean) => {
+    let presenterSession: string | null = null;
+    if (withPresenter) {
+      presenterSession = crypto.randomUUID();
+      const opened = window.open(presenterUrl(presenterSession), "pdf-presenter", "popup,width=960,height=640");
+      if (!opened) {
+        presenterSession = null;
+        toast.error("Die Referentenansicht wurde vom Browser blockiert.");
+      }
+    }
+    setPresentation({ startPage: currentPage, presenterSession });
+  };
+
+  // Browser print of the viewer would print its UI, so pages are rendered
+  // at print resolution and printed on their own
+  // Filled-in fields and own annotations only exist in the viewer, so they are
+  // written into a copy that gets printed instead. Null when there is nothing
+  // to add; encrypted documents, which pdf-lib can't rewrite, print as they are.
+  const createPrintCopy = async (): Promise<File | null> => {
+    if (!isFormDirty && sortedAnnotations.length === 0) return null;
+    try {
+      const filled = isFormDirty ? await fillForm(file.name) : file;
+      if (sortedAnnotations.length === 0) return filled;
+      return await exportAnnotatedPdf(await filled.arrayBuffer(), sortedAnnotations, file.name, { flatten: true });
+    } catch (err) {
+      if (!(err instanceof EncryptedPDFError)) throw err;
+      toast.warning("Bei verschlüsselten PDFs werden Formulareingaben und Anmerkungen nicht mitgedruckt.");
+      return null;
+    }
+  };
+
+  const printDocument = async (pageNums: number[]) => {
+    if (!loadedDoc) return;
+    printCancelledRef.current = false;
+    setPrintProgress({ done: 0, total: pageNums.length });
+    let copy: PdfDocument | null = null;
+    let copyUrl: string | null = null;
+    try {
+      const copyFile = await createPrintCopy();
+      if (copyFile) {
+        copyUrl = URL.createObjectURL(copyFile);
+        copy = await openPdf(copyUrl).promise;
+      }
+      const pages = await renderPrintPages(copy ?? loadedDoc, pageNums, {
+        rotations: pageRotations,
+        onProgress: (done, total) => setPrintProgress({ done, total }),
+        isCancelled: () => printCancelledRef.current,
+      });
+      if (!pages) return;
+      setIsPrintOpen(false);
+      await printPages(pages);
+    } catch (err) {
+      console.error("Print error:", err);
+      toast.error("Das Dokument konnte nicht zum Drucken vorbereitet werden.");
+    } finally {
+      copy?.destroy();
+      if (copyUrl) URL.revokeObjectURL(copyUrl);
+      setPrintProgress(null);
+    }
+  };
+
+  const cancelPrint = () => {
+    printCancelledRef.current = true;
+    setIsPrintOpen(false);
+  };
+
+  const endPresentation = (pageNum: number) => {
+    setPresentation(null);
+    goToPage(pageNum);
+  };
+
+  useViewerShortcuts(
+    {
+      nextPage: () => flipPage(1),
+      previousPage: () => flipPage(-1),
+      firstPage: () => goToPage(1),
+      lastPage: () => goToPage(numPages),
+      scrollDown: () => scrollByArrow(1),
+      scrollUp: () => scrollByArrow(-1),
+      linkBack: goBack,
+      zoomIn,
+      zoomOut,
+      actualSize: () => applyZoom("actualSize"),
+      fitWidth: () => applyZoom("fitWidth"),
+      fitPage: () => applyZoom("fitPage"),
+      search: openSearch,
+      toggleOutline: () => toggleSidebar("outline"),
+      toggleThumbnails: () => toggleSidebar("thumbnails"),
+      toggleAnnotations: () => toggleSidebar("annotations"),
+      toggleComments: () => toggleSidebar("comments"),
+      annotate: toggleAnnotating,
+      rotatePage: () => rotateCurrentPage(90),
+      present: () => startPresentation(false),
+      print: () => setIsPrintOpen(true),
+      help: () => setIsShortcutHelpOpen(true),
+      close: closeTopmost,
+    },
+    !isLoading && !error && !presentation
+  );
+
   const syncCurrentPageFromScroll = useCallback(() => {
     const container = containerRef.current;
-    if (!container || numPages === 0) return;
+    if (!container || numPages === 0 || isPaged) return;
 
     const containerRect = container.getBoundingClientRect();
-    const referencePoint = containerRect.top + containerRect.height / 2;
+    const referencePoint = isHorizontal
+      ? containerRect.left + containerRect.width / 2
+      : containerRect.top + containerRect.height / 2;
 
     let nearestPage = currentPage;
     let nearestDistance = Number.POSITIVE_INFINITY;
@@ -277,7 +1437,7 @@ export const PdfViewer = ({ file, onClose }: PdfViewerProps) => {
       if (!pageElement) continue;
 
       const pageRect = pageElement.getBoundingClientRect();
-      const center = pageRect.top + pageRect.height / 2;
+      const center = isHorizontal ? pageRect.left + pageRect.width / 2 : pageRect.top + pageRect.height / 2;
 
       const distance = Math.abs(center - referencePoint);
       if (distance < nearestDistance) {
@@ -289,10 +1449,139 @@ export const PdfViewer = ({ file, onClose }: PdfViewerProps) => {
     if (nearestPage !== currentPage) {
       setCurrentPage(nearestPage);
     }
-  }, [currentPage, numPages]);
+  }, [currentPage, numPages, isPaged, isHorizontal]);
+
+  // With nothing to scroll vertically, the mouse wheel moves along the row
+  const handleWheel = (e: React.WheelEvent) => {
+    const container = containerRef.current;
+    if (!isHorizontal || !container || e.ctrlKey || e.metaKey || e.deltaX !== 0) return;
+    if (container.scrollHeight <= container.clientHeight) container.scrollBy({ left: e.deltaY });
+  };
+
+  const handleScroll = () => {
+    lastScrollPositionRef.current = getScrollPosition();
+    reachedEndRef.current = isEndInView();
+    syncCurrentPageFromScroll();
+    schedulePositionSave();
+  };
+
+  const themeStyle = READER_THEME_STYLES[readerTheme];
+
+  const renderPage = (pageNum: number) => {
+    const size = pageSizes[pageNum - 1];
+    const rotation = pageRotations.get(pageNum) ?? 0;
+    const shownSize = size && rotatedSize(size, rotation);
+    const isVisible = visiblePages.has(pageNum);
+    return (
+      <div
+        key={pageNum}
+        data-page={pageNum}
+        ref={pageRef(pageNum)}
+        className="page-shadow relative shrink-0 overflow-hidden rounded-sm"
+        style={{
+          backgroundColor: themeStyle.background,
+          width: shownSize ? shownSize.width * displayScale : undefined,
+          height: shownSize ? shownSize.height * displayScale : undefined,
+          userSelect: "text",
+          WebkitUserSelect: "text",
+          ["--scale-factor" as string]: displayScale,
+        }}
+        role="region"
+        aria-label={`Seite ${pageNum}`}
+      >
+        {isVisible && (
+          <canvas
+            ref={(node) => {
+              if (node) canvasRefs.current.set(pageNum, node);
+              else canvasRefs.current.delete(pageNum);
+            }}
+            style={{ display: "block", width: "100%", height: "100%", filter: themeStyle.filter }}
+            aria-hidden="true"
+          />
+        )}
+        {themeStyle.tint && (
+          <div
+            className="pointer-events-none absolute inset-0"
+            style={{ backgroundColor: themeStyle.tint, mixBlendMode: "multiply" }}
+            aria-hidden="true"
+          />
+        )}
+        {/* pdf.js draws the canvas turned; the layers on top keep their
+            unrotated geometry and are turned with CSS instead. Unturned
+            pages skip the transform, so highlights still blend with the canvas. */}
+        <div
+          className={rotation ? "absolute left-1/2 top-1/2" : "absolute inset-0"}
+          style={
+            rotation && size
+              ? {
+                  width: size.width * displayScale,
+                  height: size.height * displayScale,
+                  transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+                }
+              : undefined
+          }
+        >
+          {isVisible && (
+            <>
+              {size && annotationsByPage.has(pageNum) && (
+                <PdfAnnotationMarks
+                  annotations={annotationsByPage.get(pageNum) ?? []}
+                  size={size}
+                  activeId={activeAnnotationId}
+                  blend={themeStyle.markBlend}
+                />
+              )}
+              <div
+                ref={(node) => {
+                  if (node) textLayerRefs.current.set(pageNum, node);
+                  else textLayerRefs.current.delete(pageNum);
+                }}
+                className="textLayer"
+              />
+            </>
+          )}
+          {size && isVisible && nativeAnnotations.byPage.has(pageNum) && (
+            <PdfNativeAnnotationLayer
+              annotations={nativeAnnotations.byPage.get(pageNum) ?? []}
+              size={size}
+              activeId={activeCommentId}
+              onSelect={setActiveCommentId}
+            />
+          )}
+          {size && isVisible && pageFields.has(pageNum) && (
+            <PdfFormLayer
+              fields={pageFields.get(pageNum) ?? []}
+              size={size}
+              values={formValues}
+              groupPrefix={documentId ?? file.name}
+              onChange={changeFormValue}
+            />
+          )}
+          {pageLinks.has(pageNum) && (
+            <PdfLinkLayer links={pageLinks.get(pageNum) ?? []} onActivate={followLink} />
+          )}
+          {size && isVisible && (
+            <PdfAnnotationOverlay
+              pageNum={pageNum}
+              annotations={annotationsByPage.get(pageNum) ?? []}
+              size={size}
+              rotation={rotation}
+              tool={annotationTool}
+              color={annotationColor}
+              activeId={activeAnnotationId}
+              onCreate={createAnnotation}
+              onSelect={setActiveAnnotationId}
+              onUpdateNote={(id, note) => updateAnnotation(id, { note })}
+              onRemove={removeAnnotationById}
+            />
+          )}
+        </div>
+      </div>
+    );
+  };
 
   const buttonClass =
-    "flex h-9 w-9 items-center justify-center rounded-md bg-black text-white transition-colors hover:bg-black/85 disabled:cursor-not-allowed disabled:opacity-45";
+    "flex h-9 w-9 items-center justify-center rounded-md bg-foreground text-background transition-colors hover:bg-foreground/85 disabled:cursor-not-allowed disabled:opacity-45";
 
   return (
     <div className="relative flex h-screen flex-col overflow-hidden bg-background">
@@ -301,78 +1590,366 @@ export const PdfViewer = ({ file, onClose }: PdfViewerProps) => {
           <button className={buttonClass} onClick={onClose} aria-label="Zurück">
             <ChevronLeft className="h-4 w-4" />
           </button>
+          <button
+            className={buttonClass}
+            onClick={() => toggleSidebar("outline")}
+            disabled={isLoading || !!error}
+            aria-label="Inhaltsverzeichnis"
+            aria-pressed={sidebarView === "outline"}
+          >
+            <ListTree className="h-4 w-4" />
+          </button>
+          <button
+            className={buttonClass}
+            onClick={() => toggleSidebar("thumbnails")}
+            disabled={isLoading || !!error}
+            aria-label="Seitenübersicht"
+            aria-pressed={sidebarView === "thumbnails"}
+          >
+            <GalleryVertical className="h-4 w-4" />
+          </button>
+          <button
+            className={buttonClass}
+            onClick={() => toggleSidebar("annotations")}
+            disabled={isLoading || !!error}
+            aria-label="Anmerkungen"
+            aria-pressed={sidebarView === "annotations"}
+          >
+            <MessageSquareText className="h-4 w-4" />
+          </button>
+          {nativeAnnotations.annotations.length > 0 && (
+            <button
+              className={buttonClass}
+              onClick={() => toggleSidebar("comments")}
+              aria-label="Kommentare im Dokument"
+              aria-pressed={sidebarView === "comments"}
+            >
+              <MessagesSquare className="h-4 w-4" />
+            </button>
+          )}
+          {linkHistory.length > 0 && (
+            <button className={buttonClass} onClick={goBack} aria-label="Zurück zur Absprungstelle">
+              <Undo2 className="h-4 w-4" />
+            </button>
+          )}
           {!isLoading && !error && (
-            <p className="text-sm font-medium text-foreground">
-              Seite {currentPage} von {numPages}
-            </p>
+            <PdfPageInput
+              currentPage={currentPage}
+              numPages={numPages}
+              pageLabels={pageLabels}
+              onNavigate={(pageNum) => scrollToPosition(pageNum)}
+            />
           )}
         </div>
         <div className="flex items-center gap-2">
+          {isFormDirty && (
+            <PdfFormSaveMenu
+              isSaving={isSavingForm}
+              canSaveToLibrary={canSaveToLibrary}
+              canOverwrite={canOverwrite}
+              onSave={saveForm}
+              onDownload={downloadForm}
+            />
+          )}
+          <button
+            className={buttonClass}
+            onClick={toggleAnnotating}
+            disabled={isLoading || !!error}
+            aria-label="Anmerken"
+            aria-pressed={isAnnotating}
+          >
+            <Highlighter className="h-4 w-4" />
+          </button>
+          <button
+            className={buttonClass}
+            onClick={() => {
+              setIsSearchOpen((open) => !open);
+              setSearchFocusToken((token) => token + 1);
+            }}
+            disabled={isLoading || !!error}
+            aria-label="Suchen"
+            aria-pressed={isSearchOpen}
+          >
+            <Search className="h-4 w-4" />
+          </button>
+          <PdfLayoutMenu
+            layout={layout}
+            onSelect={changeLayout}
+            disabled={isLoading || !!error}
+            className={buttonClass}
+          />
+          <button
+            className={buttonClass}
+            onClick={() => setIsPrintOpen(true)}
+            disabled={isLoading || !!error}
+            aria-label="Drucken"
+          >
+            <Printer className="h-4 w-4" />
+          </button>
+          <PdfPresentMenu onStart={startPresentation} disabled={isLoading || !!error} className={buttonClass} />
+          <PdfReaderThemeMenu
+            theme={readerTheme}
+            onSelect={changeReaderTheme}
+            disabled={isLoading || !!error}
+            className={buttonClass}
+          />
+          <PdfRotateMenu
+            currentPageLabel={getPageLabel(currentPage, pageLabels)}
+            hasRotation={pageRotations.size > 0}
+            isSaving={isSavingRotation}
+            canSaveToLibrary={canSaveRotation}
+            onRotatePage={rotateCurrentPage}
+            onRotateAll={rotateAllPages}
+            onReset={resetRotation}
+            onSave={saveRotation}
+            onDownload={downloadRotated}
+            disabled={isLoading || !!error}
+            className={buttonClass}
+          />
           <button className={buttonClass} onClick={zoomOut} disabled={scale <= MIN_SCALE} aria-label="Zoom raus">
             <ZoomOut className="h-4 w-4" />
           </button>
-          <span className="min-w-14 text-center text-xs text-muted-foreground" aria-label="Zoomstufe">
-            {Math.round(displayScale * 100)}%
-          </span>
+          <PdfZoomMenu scale={displayScale} mode={zoomMode} onSelect={applyZoom} />
           <button className={buttonClass} onClick={zoomIn} disabled={scale >= MAX_SCALE} aria-label="Zoom rein">
             <ZoomIn className="h-4 w-4" />
           </button>
+          <button
+            className={`${buttonClass} hidden sm:flex`}
+            onClick={() => setIsShortcutHelpOpen(true)}
+            aria-label="Tastenkürzel"
+          >
+            <Keyboard className="h-4 w-4" />
+          </button>
         </div>
       </header>
 
-      <main
-        ref={containerRef}
-        className="flex-1 overflow-x-hidden overflow-y-auto"
-        style={{
-          backgroundColor: "hsl(var(--viewer-bg))",
-          touchAction: "pan-y pinch-zoom",
-        }}
-        onScroll={syncCurrentPageFromScroll}
-      >
-        <div className="mx-auto flex min-h-full w-full flex-col items-center gap-4 px-3 py-3 sm:px-4 sm:py-4">
-          {isLoading && (
-            <div className="mt-24 flex flex-col items-center justify-center gap-3 text-muted-foreground">
-              <Loader2 className="h-8 w-8 animate-spin text-primary" />
-              <p className="text-sm">Wird geladen…</p>
-            </div>
-          )}
+      {isSearchOpen && !isLoading && !error && (
+        <PdfSearchBar
+          query={search.query}
+          onQueryChange={search.setQuery}
+          options={search.options}
+          onOptionsChange={search.setOptions}
+          matchCount={search.matches.length}
+          activeIndex={search.activeIndex}
+          isSearching={search.isSearching}
+          pageCounts={search.pageCounts}
+          activePage={activeMatch?.pageNum ?? null}
+          onNext={search.next}
+          onPrevious={search.previous}
+          onSelectPage={selectSearchPage}
+          onClose={() => setIsSearchOpen(false)}
+          focusToken={searchFocusToken}
+        />
+      )}
 
-          {error && (
-            <div className="mt-24 flex flex-col items-center justify-center gap-3">
-              <p className="font-medium text-destructive">{error}</p>
-              <p className="text-sm text-muted-foreground">Bitte versuche eine andere Datei.</p>
-              <button
-                onClick={onClose}
-                className="mt-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground"
-              >
-                Zurück zum Bücherregal
-              </button>
-            </div>
-          )}
+      {isAnnotating && !isLoading && !error && (
+        <PdfAnnotationToolbar
+          tool={annotationTool}
+          onToolChange={setAnnotationTool}
+          color={annotationColor}
+          onColorChange={setAnnotationColor}
+          onClose={() => {
+            setIsAnnotating(false);
+            setAnnotationTool(null);
+          }}
+        />
+      )}
 
-          {!isLoading &&
-            !error &&
-            Array.from({ length: numPages }, (_, idx) => idx + 1).map((pageNum) => (
-              <div
-                key={pageNum}
-                ref={(node) => {
-                  if (node) pageRefs.current.set(pageNum, node);
-                  else pageRefs.current.delete(pageNum);
-                }}
-                className="page-shadow overflow-hidden rounded-sm bg-card"
-                style={{ userSelect: "text", WebkitUserSelect: "text" }}
-              >
-                <canvas
-                  ref={(node) => {
-                    if (node) canvasRefs.current.set(pageNum, node);
-                    else canvasRefs.current.delete(pageNum);
-                  }}
-                  style={{ display: "block" }}
+      <div className="relative flex min-h-0 flex-1">
+        {sidebarView === "outline" && !isLoading && !error && (
+          <aside className="absolute inset-y-0 left-0 z-20 w-72 max-w-[85vw] overflow-y-auto border-r border-border bg-card shadow-xl md:static md:shadow-none">
+            <PdfOutline nodes={outline} activePath={activeOutlinePath} onSelect={selectOutlineNode} />
+          </aside>
+        )}
+        {sidebarView === "thumbnails" && !isLoading && !error && (
+          <aside className="absolute inset-y-0 left-0 z-20 w-40 overflow-y-auto border-r border-border bg-card shadow-xl md:static md:shadow-none">
+            <PdfThumbnailRail
+              numPages={numPages}
+              pageSizes={pageSizes}
+              currentPage={currentPage}
+              thumbnails={pageThumbnails.thumbnails}
+              onRequest={pageThumbnails.request}
+              onRelease={pageThumbnails.release}
+              onSelect={selectThumbnail}
+            />
+          </aside>
+        )}
+
+        {sidebarView === "annotations" && !isLoading && !error && (
+          <aside className="absolute inset-y-0 left-0 z-20 w-72 max-w-[85vw] overflow-y-auto border-r border-border bg-card shadow-xl md:static md:shadow-none">
+            <PdfAnnotationsPanel
+              annotations={sortedAnnotations}
+              pageLabels={pageLabels}
+              activeId={activeAnnotationId}
+              onSelect={selectAnnotation}
+              onUpdateNote={(id, note) => updateAnnotation(id, { note })}
+              onRemove={removeAnnotationById}
+              actions={
+                <PdfAnnotationExportMenu
+                  isExporting={isExporting}
+                  onExportPdf={exportWithAnnotations}
+                  onExportData={exportAnnotationData}
+                  onImport={importAnnotationFile}
                 />
+              }
+            />
+          </aside>
+        )}
+
+        {sidebarView === "comments" && !isLoading && !error && (
+          <aside className="absolute inset-y-0 left-0 z-20 w-72 max-w-[85vw] overflow-y-auto border-r border-border bg-card shadow-xl md:static md:shadow-none">
+            <PdfCommentsPanel
+              annotations={nativeAnnotations.annotations}
+              isScanning={nativeAnnotations.isScanning}
+              pageLabels={pageLabels}
+              activeId={activeCommentId}
+              onSelect={selectComment}
+            />
+          </aside>
+        )}
+
+        <main
+          ref={containerRef}
+          className="flex-1 overflow-auto"
+          style={{
+            backgroundColor: "hsl(var(--viewer-bg))",
+            // Pinch zoom is handled by useGestureZoom, not the browser
+            touchAction: "pan-x pan-y",
+          }}
+          onScroll={handleScroll}
+          onWheel={handleWheel}
+          onCopy={handleCopy}
+          onPointerUp={highlightSelection}
+        >
+          <div
+            ref={contentRef}
+            className={`mx-auto flex min-h-full w-max min-w-full items-center gap-4 px-3 py-3 sm:px-4 sm:py-4 ${
+              isHorizontal ? "flex-row" : "flex-col"
+            } ${isPaged ? "justify-center" : ""}`}
+          >
+            {isLoading && (
+              <div className="mt-24 flex flex-col items-center justify-center gap-3 text-muted-foreground">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                <p className="text-sm">Wird geladen…</p>
               </div>
-            ))}
-        </div>
-      </main>
+            )}
+
+            {error && (
+              <PdfLoadErrorView
+                kind={error}
+                onRetry={retryLoad}
+                onRepair={
+                  (error === "corrupt" || error === "unsupported") && file === originalFile ? repairDocument : undefined
+                }
+                isRepairing={isRepairing}
+                onDownloadOriginal={() => downloadFile(originalFile)}
+                onClose={onClose}
+              />
+            )}
+
+            {!isLoading &&
+              !error &&
+              (isSpreadLayout(layout)
+                ? rows.map((row) => (
+                    <div key={row.join("-")} className="flex shrink-0 items-start" style={{ gap: SPREAD_GAP }}>
+                      {row.map(renderPage)}
+                    </div>
+                  ))
+                : (isPaged ? [currentPage] : rows.map(([pageNum]) => pageNum)).map(renderPage))}
+          </div>
+        </main>
+
+        {isPaged && !isLoading && !error && (
+          <>
+            <button
+              className="absolute left-2 top-1/2 z-10 hidden h-10 w-10 -translate-y-1/2 items-center justify-center rounded-full bg-black/60 text-white transition-opacity hover:bg-black/80 disabled:opacity-0 sm:flex"
+              onClick={() => flipPage(-1)}
+              disabled={currentPage <= 1}
+              aria-label="Vorherige Seite"
+            >
+              <ChevronLeft className="h-5 w-5" />
+            </button>
+            <button
+              className="absolute right-2 top-1/2 z-10 hidden h-10 w-10 -translate-y-1/2 items-center justify-center rounded-full bg-black/60 text-white transition-opacity hover:bg-black/80 disabled:opacity-0 sm:flex"
+              onClick={() => flipPage(1)}
+              disabled={currentPage >= numPages}
+              aria-label="Nächste Seite"
+            >
+              <ChevronRight className="h-5 w-5" />
+            </button>
+          </>
+        )}
+
+        {resumedPage !== null && (
+          <div
+            role="status"
+            className="absolute bottom-4 left-1/2 z-30 flex -translate-x-1/2 items-center gap-3 whitespace-nowrap rounded-full bg-black py-1.5 pl-4 pr-1.5 text-sm text-white shadow-lg"
+          >
+            <span>Weiter auf Seite {getPageLabel(resumedPage, pageLabels)}</span>
+            <button
+              onClick={() => {
+                setResumedPage(null);
+                goToPage(1);
+              }}
+              className="font-medium underline-offset-2 hover:underline"
+            >
+              Zum Anfang
+            </button>
+            <button
+              onClick={() => setResumedPage(null)}
+              className="flex h-7 w-7 items-center justify-center rounded-full hover:bg-white/15"
+              aria-label="Hinweis schließen"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={pendingExternalUrl !== null} onOpenChange={(open) => !open && setPendingExternalUrl(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Externen Link öffnen?</AlertDialogTitle>
+            <AlertDialogDescription className="break-all">{pendingExternalUrl}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Abbrechen</AlertDialogCancel>
+            <AlertDialogAction onClick={openExternalUrl}>In neuem Tab öffnen</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <PdfShortcutHelp open={isShortcutHelpOpen} onOpenChange={setIsShortcutHelpOpen} />
+
+      <PdfPrintDialog
+        open={isPrintOpen}
+        numPages={numPages}
+        currentPage={currentPage}
+        currentPageLabel={getPageLabel(currentPage, pageLabels)}
+        progress={printProgress}
+        onPrint={printDocument}
+        onCancel={cancelPrint}
+      />
+
+      {presentation && loadedDoc && (
+        <PdfPresentation
+          pdf={loadedDoc}
+          numPages={numPages}
+          startPage={presentation.startPage}
+          title={file.name}
+          rotations={pageRotations}
+          presenterSession={presentation.presenterSession}
+          onExit={endPresentation}
+        />
+      )}
+
+      <PdfPasswordDialog
+        open={passwordPrompt !== null}
+        fileName={file.name}
+        isIncorrect={passwordPrompt?.isIncorrect ?? false}
+        onSubmit={(password, remember) => passwordPrompt?.submit(password, remember)}
+        onCancel={() => passwordPrompt?.cancel()}
+      />
     </div>
   );
 };
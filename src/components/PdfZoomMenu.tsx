@@ -0,0 +1,52 @@
+import { ChevronDown } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ZoomMode } from "@/lib/zoom";
+
+interface PdfZoomMenuProps {
+  scale: number;
+  mode: ZoomMode;
+  onSelect: (mode: ZoomMode, scale?: number) => void;
+}
+
+const MODE_LABELS: Record<Exclude<ZoomMode, "custom">, string> = {
+  fitWidth: "An Breite anpassen",
+  fitPage: "Ganze Seite",
+  actualSize: "Originalgröße",
+};
+
+const PRESET_SCALES = [0.5, 0.75, 1, 1.5, 2, 3];
+
+export const PdfZoomMenu = ({ scale, mode, onSelect }: PdfZoomMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger
+      className="flex h-9 min-w-16 items-center justify-center gap-0.5 rounded-md px-1.5 text-xs text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+      aria-label="Zoomstufe"
+    >
+      {Math.round(scale * 100)}%
+      <ChevronDown className="h-3 w-3" />
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuRadioGroup value={mode} onValueChange={(value) => onSelect(value as ZoomMode)}>
+        {(Object.keys(MODE_LABELS) as Array<keyof typeof MODE_LABELS>).map((key) => (
+          <DropdownMenuRadioItem key={key} value={key}>
+            {MODE_LABELS[key]}
+          </DropdownMenuRadioItem>
+        ))}
+      </DropdownMenuRadioGroup>
+      <DropdownMenuSeparator />
+      {PRESET_SCALES.map((preset) => (
+        <DropdownMenuItem key={preset} onSelect={() => onSelect("custom", preset)}>
+          {Math.round(preset * 100)}%
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
@@ -0,0 +1,22 @@
+import { Moon, Sun } from "lucide-react";
+import { useTheme } from "next-themes";
+
+interface ThemeToggleProps {
+  className?: string;
+}
+
+// Switches the app between light and dark; starts out following the system
+export const ThemeToggle = ({ className }: ThemeToggleProps) => {
+  const { resolvedTheme, setTheme } = useTheme();
+  const isDark = resolvedTheme === "dark";
+  return (
+    <button
+      onClick={() => setTheme(isDark ? "light" : "dark")}
+      className={className}
+      aria-label={isDark ? "Helles Erscheinungsbild" : "Dunkles Erscheinungsbild"}
+      title={isDark ? "Helles Erscheinungsbild" : "Dunkles Erscheinungsbild"}
+    >
+      {isDark ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+    </button>
+  );
+};
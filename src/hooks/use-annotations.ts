@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { newImportedAnnotations } from "@/lib/annotations";
+import { deleteAnnotation, loadAnnotations, saveAnnotation } from "@/lib/annotationStorage";
+import type { Annotation, AnnotationGeometry } from "@/types/pdf";
+
+// Edits to what an annotation says; moving it goes through
+// updateAnnotationGeometry
+export type AnnotationPatch = Partial<Pick<Annotation, "note" | "color">>;
+
+// The annotations of one library document. Changes apply to local state right
+// away and are written to `pdf_annotations` in the background. Documents that
+// are still uploading (no library id yet) keep their annotations in memory.
+export function useAnnotations(documentId: string | null) {
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const annotationsRef = useRef<Annotation[]>([]);
+  annotationsRef.current = annotations;
+
+  const isPersisted = !!documentId && !documentId.startsWith("temp-");
+
+  useEffect(() => {
+    setAnnotations([]);
+    if (!isPersisted || !documentId) return;
+
+    let cancelled = false;
+    loadAnnotations(documentId).then((loaded) => {
+      if (!cancelled) setAnnotations(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, isPersisted]);
+
+  const addAnnotation = useCallback(
+    (annotation: Annotation) => {
+      setAnnotations((prev) => [...prev, annotation]);
+      if (isPersisted && documentId) saveAnnotation(documentId, annotation);
+    },
+    [documentId, isPersisted]
+  );
+
+  // Adds annotations from an import, leaving out ones this document already
+  // has (see newImportedAnnotations). Returns how many were added.
+  const importAnnotations = useCallback(
+    (imported: Annotation[]) => {
+      const added = newImportedAnnotations(annotationsRef.current, imported);
+      if (added.length === 0) return 0;
+      setAnnotations((prev) => [...prev, ...added]);
+      if (isPersisted && documentId) added.forEach((annotation) => saveAnnotation(documentId, annotation));
+      return added.length;
+    },
+    [documentId, isPersisted]
+  );
+
+  const applyUpdate = useCallback(
+    (id: string, update: (current: Annotation) => Annotation) => {
+      const current = annotationsRef.current.find((annotation) => annotation.id === id);
+      if (!current) return;
+      const updated = { ...update(current), updatedAt: new Date().toISOString() };
+      setAnnotations((prev) => prev.map((annotation) => (annotation.id === id ? updated : annotation)));
+      if (isPersisted && documentId) saveAnnotation(documentId, updated);
+    },
+    [documentId, isPersisted]
+  );
+
+  const updateAnnotation = useCallback(
+    (id: string, patch: AnnotationPatch) => applyUpdate(id, (current) => ({ ...current, ...patch })),
+    [applyUpdate]
+  );
+
+  // New rects, position or paths, e.g. after the page was rotated for good.
+  // Geometry of another kind than the annotation's is ignored.
+  const updateAnnotationGeometry = useCallback(
+    (id: string, geometry: AnnotationGeometry) =>
+      applyUpdate(id, (current) => {
+        if (current.type === "highlight" && "rects" in geometry) return { ...current, rects: geometry.rects };
+        if (current.type === "note" && "position" in geometry) return { ...current, position: geometry.position };
+        if (current.type === "ink" && "paths" in geometry) return { ...current, paths: geometry.paths };
+        return current;
+      }),
+    [applyUpdate]
+  );
+
+  const removeAnnotation = useCallback(
+    (id: string) => {
+      setAnnotations((prev) => prev.filter((annotation) => annotation.id !== id));
+      if (isPersisted) deleteAnnotation(id);
+    },
+    [isPersisted]
+  );
+
+  return {
+    annotations,
+    addAnnotation,
+    importAnnotations,
+    updateAnnotation,
+    updateAnnotationGeometry,
+    removeAnnotation,
+  };
+}
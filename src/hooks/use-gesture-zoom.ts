@@ -0,0 +1,133 @@
+import { useEffect, useRef, type RefObject } from "react";
+
+interface GestureZoomOptions {
+  containerRef: RefObject<HTMLElement>;
+  contentRef: RefObject<HTMLElement>;
+  scale: number;
+  minScale: number;
+  maxScale: number;
+  // Called once the gesture ends, with the content still transformed; the
+  // viewer re-renders at `nextScale` and clears the transform afterwards.
+  onZoomEnd: (nextScale: number, clientX: number, clientY: number) => void;
+  enabled?: boolean;
+}
+
+const WHEEL_SENSITIVITY = 0.0015;
+const LINE_HEIGHT_PX = 16;
+// A wheel "gesture" ends after this long without another ctrl+wheel event
+const WHEEL_IDLE_MS = 150;
+
+interface Gesture {
+  factor: number;
+  clientX: number;
+  clientY: number;
+  startDistance: number;
+}
+
+const touchDistance = (touches: TouchList) =>
+  Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+// Pinch and ctrl+wheel zoom handled by the viewer instead of the browser.
+// While the gesture runs the content is only CSS-scaled around the gesture
+// point; the real (crisp) re-render happens once, when it ends.
+export function useGestureZoom({
+  containerRef,
+  contentRef,
+  scale,
+  minScale,
+  maxScale,
+  onZoomEnd,
+  enabled = true,
+}: GestureZoomOptions) {
+  const scaleRef = useRef(scale);
+  const onZoomEndRef = useRef(onZoomEnd);
+  scaleRef.current = scale;
+  onZoomEndRef.current = onZoomEnd;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) return;
+
+    let gesture: Gesture | null = null;
+    let wheelTimer: number | undefined;
+
+    const clampFactor = (factor: number) =>
+      Math.max(minScale / scaleRef.current, Math.min(maxScale / scaleRef.current, factor));
+
+    const begin = (clientX: number, clientY: number, startDistance = 0) => {
+      const content = contentRef.current;
+      if (!content) return;
+      const rect = content.getBoundingClientRect();
+      content.style.transformOrigin = `${clientX - rect.left}px ${clientY - rect.top}px`;
+      content.style.willChange = "transform";
+      gesture = { factor: 1, clientX, clientY, startDistance };
+    };
+
+    const update = (factor: number) => {
+      const content = contentRef.current;
+      if (!gesture || !content) return;
+      gesture.factor = clampFactor(factor);
+      content.style.transform = `scale(${gesture.factor})`;
+    };
+
+    const end = () => {
+      const content = contentRef.current;
+      const finished = gesture;
+      gesture = null;
+      if (content) content.style.willChange = "";
+      if (!finished) return;
+      onZoomEndRef.current(scaleRef.current * finished.factor, finished.clientX, finished.clientY);
+    };
+
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+
+      if (!gesture) begin(e.clientX, e.clientY);
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * LINE_HEIGHT_PX : e.deltaY;
+      update((gesture?.factor ?? 1) * Math.exp(-delta * WHEEL_SENSITIVITY));
+
+      window.clearTimeout(wheelTimer);
+      wheelTimer = window.setTimeout(end, WHEEL_IDLE_MS);
+    };
+
+    const onTouchStart = (e: TouchEvent) => {
+      if (e.touches.length !== 2) return;
+      const midX = (e.touches[0].clientX + e.touches[1].clientX) / 2;
+      const midY = (e.touches[0].clientY + e.touches[1].clientY) / 2;
+      begin(midX, midY, touchDistance(e.touches));
+    };
+
+    const onTouchMove = (e: TouchEvent) => {
+      if (!gesture || e.touches.length !== 2 || gesture.startDistance === 0) return;
+      e.preventDefault();
+      update(touchDistance(e.touches) / gesture.startDistance);
+    };
+
+    const onTouchEnd = (e: TouchEvent) => {
+      if (gesture && e.touches.length < 2) end();
+    };
+
+    // iOS Safari fires its own gesture events and zooms the page unless told not to
+    const preventNativeGesture = (e: Event) => e.preventDefault();
+
+    container.addEventListener("wheel", onWheel, { passive: false });
+    container.addEventListener("touchstart", onTouchStart, { passive: true });
+    container.addEventListener("touchmove", onTouchMove, { passive: false });
+    container.addEventListener("touchend", onTouchEnd);
+    container.addEventListener("touchcancel", onTouchEnd);
+    container.addEventListener("gesturestart", preventNativeGesture);
+    container.addEventListener("gesturechange", preventNativeGesture);
+
+    return () => {
+      window.clearTimeout(wheelTimer);
+      container.removeEventListener("wheel", onWheel);
+      container.removeEventListener("touchstart", onTouchStart);
+      container.removeEventListener("touchmove", onTouchMove);
+      container.removeEventListener("touchend", onTouchEnd);
+      container.removeEventListener("touchcancel", onTouchEnd);
+      container.removeEventListener("gesturestart", preventNativeGesture);
+      container.removeEventListener("gesturechange", preventNativeGesture);
+    };
+  }, [containerRef, contentRef, minScale, maxScale, enabled]);
+}
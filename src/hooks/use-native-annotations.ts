@@ -0,0 +1,56 @@
+import { useState, useEffect, useMemo } from "react";
+import { loadNativeAnnotations, type NativeAnnotation } from "@/lib/pdfAnnotations";
+import type { PdfDocument } from "@/lib/pdfjs";
+import type { RenderQueue } from "@/lib/renderQueue";
+
+// Publish partial results every few pages so the comments panel fills early
+const PAGES_PER_BATCH = 10;
+
+// Collects the annotations that came with the document, page by page in the
+// background. Each batch waits for `mainQueue` to go idle, so the scan never
+// holds up the pages being read.
+export function useNativeAnnotations(pdfDoc: PdfDocument | null, mainQueue: RenderQueue) {
+  const [annotations, setAnnotations] = useState<NativeAnnotation[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+
+  useEffect(() => {
+    setAnnotations([]);
+    if (!pdfDoc) return;
+
+    let cancelled = false;
+    const scan = async () => {
+      setIsScanning(true);
+      const found: NativeAnnotation[] = [];
+      for (let pageNum = 1; pageNum <= pdfDoc.numPages; pageNum++) {
+        if (pageNum % PAGES_PER_BATCH === 1) await mainQueue.whenIdle();
+        if (cancelled) return;
+        const page = await pdfDoc.getPage(pageNum).catch(() => null);
+        if (page) {
+          found.push(...(await loadNativeAnnotations(page, pageNum)));
+          // Frees what the scan loaded; pages being shown load it again as needed
+          page.cleanup();
+        }
+        if (cancelled) return;
+        if (pageNum % PAGES_PER_BATCH === 0) setAnnotations([...found]);
+      }
+      setAnnotations(found);
+      setIsScanning(false);
+    };
+
+    scan();
+    return () => {
+      cancelled = true;
+      setIsScanning(false);
+    };
+  }, [pdfDoc, mainQueue]);
+
+  const byPage = useMemo(() => {
+    const map = new Map<number, NativeAnnotation[]>();
+    for (const annotation of annotations) {
+      map.set(annotation.pageNum, [...(map.get(annotation.pageNum) ?? []), annotation]);
+    }
+    return map;
+  }, [annotations]);
+
+  return { annotations, byPage, isScanning };
+}
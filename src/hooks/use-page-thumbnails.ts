@@ -0,0 +1,61 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { createRenderQueue, type RenderQueue } from "@/lib/renderQueue";
+import { renderPageThumbnail, type ThumbnailDocument } from "@/lib/pageThumbnails";
+
+const THUMBNAIL_WIDTH = 112;
+const MAX_PENDING_THUMBNAILS = 64;
+
+// Lazily renders and caches page thumbnails for the viewer's rail. Jobs wait
+// for `mainQueue` to go idle first, so thumbnails only use the time between
+// page renders and never delay what the reader is looking at.
+export function usePageThumbnails(pdfDoc: ThumbnailDocument | null, mainQueue: RenderQueue) {
+  const [thumbnails, setThumbnails] = useState<Map<number, string>>(() => new Map());
+  const queueRef = useRef(createRenderQueue({ maxPending: MAX_PENDING_THUMBNAILS }));
+  const requestedRef = useRef<Set<number>>(new Set());
+  const renderedRef = useRef<Set<number>>(new Set());
+  const activeDocRef = useRef(pdfDoc);
+
+  useEffect(() => {
+    activeDocRef.current = pdfDoc;
+    const queue = queueRef.current;
+    const requested = requestedRef.current;
+    const rendered = renderedRef.current;
+    setThumbnails(new Map());
+    return () => {
+      queue.clear();
+      requested.clear();
+      rendered.clear();
+    };
+  }, [pdfDoc]);
+
+  const request = useCallback(
+    (pageNum: number) => {
+      if (!pdfDoc || requestedRef.current.has(pageNum)) return;
+      requestedRef.current.add(pageNum);
+
+      queueRef.current.enqueue(pageNum, pageNum, async () => {
+        await mainQueue.whenIdle();
+        if (!requestedRef.current.has(pageNum)) return;
+
+        const dataUrl = await renderPageThumbnail(pdfDoc, pageNum, { width: THUMBNAIL_WIDTH }).catch(() => null);
+        if (activeDocRef.current !== pdfDoc) return;
+        if (!dataUrl) {
+          requestedRef.current.delete(pageNum);
+          return;
+        }
+        renderedRef.current.add(pageNum);
+        setThumbnails((prev) => new Map(prev).set(pageNum, dataUrl));
+      });
+    },
+    [pdfDoc, mainQueue]
+  );
+
+  // Called when a thumbnail scrolls out of the rail before it was rendered
+  const release = useCallback((pageNum: number) => {
+    if (renderedRef.current.has(pageNum)) return;
+    queueRef.current.cancel(pageNum);
+    requestedRef.current.delete(pageNum);
+  }, []);
+
+  return { thumbnails, request, release };
+}
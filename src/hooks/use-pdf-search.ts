@@ -0,0 +1,123 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import {
+  buildPageText,
+  findMatches,
+  DEFAULT_SEARCH_OPTIONS,
+  type PageText,
+  type SearchMatch,
+  type SearchOptions,
+} from "@/lib/pdfSearch";
+import type { PdfDocument, PdfTextItem } from "@/lib/pdfjs";
+
+const SEARCH_DEBOUNCE_MS = 250;
+// Publish partial results every few pages so long documents show hits early
+const PAGES_PER_BATCH = 20;
+
+export function usePdfSearch(pdfDoc: PdfDocument | null) {
+  const [query, setQuery] = useState("");
+  const [options, setOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [matches, setMatches] = useState<SearchMatch[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const pageTextCacheRef = useRef<Map<number, PageText>>(new Map());
+
+  useEffect(() => {
+    pageTextCacheRef.current = new Map();
+    setMatches([]);
+    setActiveIndex(-1);
+  }, [pdfDoc]);
+
+  const getPageText = useCallback(
+    async (pageNum: number): Promise<PageText | null> => {
+      const cached = pageTextCacheRef.current.get(pageNum);
+      if (cached) return cached;
+      if (!pdfDoc) return null;
+
+      try {
+        const page = await pdfDoc.getPage(pageNum);
+        const content = await page.getTextContent();
+        const pageText = buildPageText(content.items.filter((item): item is PdfTextItem => "str" in item));
+        pageTextCacheRef.current.set(pageNum, pageText);
+        return pageText;
+      } catch {
+        return null;
+      }
+    },
+    [pdfDoc]
+  );
+
+  const getCachedPageText = useCallback(
+    (pageNum: number): PageText | null => pageTextCacheRef.current.get(pageNum) ?? null,
+    []
+  );
+
+  useEffect(() => {
+    if (!pdfDoc || !query.trim()) {
+      setMatches([]);
+      setActiveIndex(-1);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      setIsSearching(true);
+      const found: SearchMatch[] = [];
+
+      for (let pageNum = 1; pageNum <= pdfDoc.numPages; pageNum++) {
+        const pageText = await getPageText(pageNum);
+        if (cancelled) return;
+        if (pageText) {
+          for (const [start, end] of findMatches(pageText.text, query, options)) {
+            found.push({ pageNum, start, end });
+          }
+        }
+        if (pageNum % PAGES_PER_BATCH === 0) {
+          setMatches([...found]);
+          setActiveIndex((prev) => (prev === -1 && found.length > 0 ? 0 : prev));
+        }
+      }
+
+      setMatches(found);
+      setActiveIndex((prev) => (found.length === 0 ? -1 : Math.max(0, Math.min(prev, found.length - 1))));
+      setIsSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [pdfDoc, query, options, getPageText]);
+
+  const pageCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    for (const match of matches) counts.set(match.pageNum, (counts.get(match.pageNum) ?? 0) + 1);
+    return counts;
+  }, [matches]);
+
+  const next = useCallback(() => {
+    if (matches.length === 0) return;
+    setActiveIndex((prev) => (prev + 1) % matches.length);
+  }, [matches.length]);
+
+  const previous = useCallback(() => {
+    if (matches.length === 0) return;
+    setActiveIndex((prev) => (prev - 1 + matches.length) % matches.length);
+  }, [matches.length]);
+
+  return {
+    query,
+    setQuery,
+    options,
+    setOptions,
+    matches,
+    activeIndex,
+    setActiveIndex,
+    isSearching,
+    pageCounts,
+    next,
+    previous,
+    getCachedPageText,
+  };
+}
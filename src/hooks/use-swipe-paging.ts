@@ -0,0 +1,64 @@
+import { useEffect, useRef, type RefObject } from "react";
+
+interface SwipePagingOptions {
+  containerRef: RefObject<HTMLElement>;
+  // -1 for a swipe to the right (back), 1 for a swipe to the left (forward)
+  onSwipe: (direction: 1 | -1) => void;
+  enabled?: boolean;
+}
+
+// Horizontal distance a finger has to travel to flip the page
+const MIN_SWIPE_PX = 60;
+// Mostly sideways: vertical drift may be at most this share of the distance
+const MAX_VERTICAL_RATIO = 0.6;
+
+// One-finger horizontal swipes flip pages. A page that is zoomed wider than
+// the viewport scrolls instead until its edge is reached, and a second finger
+// (pinch zoom) cancels the swipe.
+export function useSwipePaging({ containerRef, onSwipe, enabled = true }: SwipePagingOptions) {
+  const onSwipeRef = useRef(onSwipe);
+  onSwipeRef.current = onSwipe;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) return;
+
+    let start: { x: number; y: number; scrollLeft: number } | null = null;
+
+    const onTouchStart = (e: TouchEvent) => {
+      start =
+        e.touches.length === 1
+          ? { x: e.touches[0].clientX, y: e.touches[0].clientY, scrollLeft: container.scrollLeft }
+          : null;
+    };
+
+    const onTouchEnd = (e: TouchEvent) => {
+      const began = start;
+      start = null;
+      if (!began || e.changedTouches.length !== 1 || window.getSelection()?.isCollapsed === false) return;
+
+      const dx = e.changedTouches[0].clientX - began.x;
+      const dy = e.changedTouches[0].clientY - began.y;
+      if (Math.abs(dx) < MIN_SWIPE_PX || Math.abs(dy) > Math.abs(dx) * MAX_VERTICAL_RATIO) return;
+
+      const direction = dx < 0 ? 1 : -1;
+      const maxScrollLeft = container.scrollWidth - container.clientWidth;
+      const atEdge = direction === 1 ? began.scrollLeft >= maxScrollLeft - 1 : began.scrollLeft <= 1;
+      if (atEdge) onSwipeRef.current(direction);
+    };
+
+    const onTouchCancel = () => {
+      start = null;
+    };
+
+    container.addEventListener("touchstart", onTouchStart, { passive: true });
+    container.addEventListener("touchend", onTouchEnd);
+    container.addEventListener("touchcancel", onTouchCancel);
+
+    return () => {
+      container.removeEventListener("touchstart", onTouchStart);
+      container.removeEventListener("touchend", onTouchEnd);
+      container.removeEventListener("touchcancel", onTouchCancel);
+    };
+  }, [containerRef, enabled]);
+}
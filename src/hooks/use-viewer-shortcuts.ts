@@ -0,0 +1,40 @@
+import { useEffect, useRef } from "react";
+import { isEditableTarget, matchShortcut, type ShortcutAction } from "@/lib/shortcuts";
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+// Dispatches the viewer's keyboard shortcuts. Handlers are read through a ref,
+// so callers can pass a fresh object every render without re-binding.
+export function useViewerShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.isComposing) return;
+
+      // Leave keys alone while a dialog (link confirmation, help) has focus
+      const target = e.target as HTMLElement | null;
+      if (target?.closest?.("[role='dialog'], [role='alertdialog']")) return;
+
+      // Space on a focused button or link should still activate it
+      if (e.key === " " && target?.closest?.("button, a[href]")) return;
+
+      const binding = matchShortcut(e);
+      if (!binding) return;
+      const isModCombo = e.ctrlKey || e.metaKey;
+      if (isEditableTarget(e.target) && !(binding.allowInInputs && isModCombo)) return;
+
+      const handler = handlersRef.current[binding.action];
+      if (!handler) return;
+
+      e.preventDefault();
+      handler();
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [enabled]);
+}
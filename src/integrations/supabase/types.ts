@@ -14,30 +14,98 @@ export type Database = {
   }
   public: {
     Tables: {
+      pdf_annotations: {
+        Row: {
+          color: string
+          created_at: string
+          data: Json
+          id: string
+          note: string
+          page_num: number
+          pdf_id: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          color: string
+          created_at?: string
+          data?: Json
+          id: string
+          note?: string
+          page_num: number
+          pdf_id: string
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          data?: Json
+          id?: string
+          note?: string
+          page_num?: number
+          pdf_id?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pdf_annotations_pdf_id_fkey"
+            columns: ["pdf_id"]
+            isOneToOne: false
+            referencedRelation: "pdf_library"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pdf_library: {
         Row: {
           created_at: string
           id: string
+          last_opened_at: string | null
+          last_page: number | null
+          last_page_offset: number | null
           name: string
+          page_count: number | null
+          page_layout: string | null
+          reached_end: boolean
           size: number
           storage_path: string
           thumbnail: string | null
+          zoom_mode: string | null
+          zoom_scale: number | null
         }
         Insert: {
           created_at?: string
           id: string
+          last_opened_at?: string | null
+          last_page?: number | null
+          last_page_offset?: number | null
           name: string
+          page_count?: number | null
+          page_layout?: string | null
+          reached_end?: boolean
           size: number
           storage_path: string
           thumbnail?: string | null
+          zoom_mode?: string | null
+          zoom_scale?: number | null
         }
         Update: {
           created_at?: string
           id?: string
+          last_opened_at?: string | null
+          last_page?: number | null
+          last_page_offset?: number | null
           name?: string
+          page_count?: number | null
+          page_layout?: string | null
+          reached_end?: boolean
           size?: number
           storage_path?: string
           thumbnail?: string | null
+          zoom_mode?: string | null
+          zoom_scale?: number | null
         }
         Relationships: []
       }
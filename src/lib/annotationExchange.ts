@@ -0,0 +1,344 @@
+import { ANNOTATION_COLORS, sortAnnotations } from "@/lib/annotations";
+import { getPageLabel } from "@/lib/pageLabels";
+import { findActiveOutlinePath, type OutlineNode } from "@/lib/pdfOutline";
+import {
+  colorComponents,
+  fromPdfPoint,
+  parsePdfDate,
+  pdfDate,
+  toPdfPoint,
+  toPdfRect,
+  type PageBox,
+} from "@/lib/pdfExport";
+import type { Annotation, AnnotationColor, AnnotationPoint, AnnotationRect } from "@/types/pdf";
+
+export type AnnotationExportFormat = "markdown" | "json" | "xfdf";
+
+export const ANNOTATIONS_JSON_FORMAT = "pdf-annotations";
+export const ANNOTATIONS_JSON_VERSION = 1;
+
+// Page box and rotation as pdf.js reports them (`page.view`, `page.rotate`),
+// needed to translate to and from PDF user space for XFDF
+export interface PageGeometry {
+  box: PageBox;
+  rotation: number;
+}
+
+const TYPE_LABELS = { highlight: "Markierung", note: "Notiz", ink: "Zeichnung" };
+
+const baseName = (name: string) => name.replace(/\.pdf$/i, "");
+
+export const annotationExportFileName = (name: string, format: AnnotationExportFormat) =>
+  `${baseName(name)} (Anmerkungen).${format === "markdown" ? "md" : format}`;
+
+function findNode(nodes: OutlineNode[], id: string): OutlineNode | null {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const child = findNode(node.children, id);
+    if (child) return child;
+  }
+  return null;
+}
+
+const quoteBlock = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
+
+// A reading digest: every annotation as quote + note + page, under the
+// outline section it falls into
+export function annotationsToMarkdown(
+  name: string,
+  annotations: Annotation[],
+  outline: OutlineNode[],
+  pageLabels: string[] | null
+): string {
+  const lines = [`# Anmerkungen: ${baseName(name)}`, ""];
+  let currentSection: string | null = null;
+
+  for (const annotation of sortAnnotations(annotations)) {
+    const path = findActiveOutlinePath(outline, annotation.pageNum);
+    const sectionId = path[path.length - 1] ?? null;
+    if (sectionId !== currentSection) {
+      currentSection = sectionId;
+      const node = sectionId ? findNode(outline, sectionId) : null;
+      if (node) lines.push(`${"#".repeat(Math.min(path.length + 1, 6))} ${node.title}`, "");
+    }
+
+    if (annotation.type === "highlight" && annotation.quote) lines.push(quoteBlock(annotation.quote), "");
+    const page = `**S. ${getPageLabel(annotation.pageNum, pageLabels)}**`;
+    const note = annotation.note.trim();
+    if (note) lines.push(`${page} – ${note}`, "");
+    else if (annotation.type !== "highlight") lines.push(`${page} – ${TYPE_LABELS[annotation.type]}`, "");
+    else lines.push(page, "");
+  }
+
+  if (annotations.length === 0) lines.push("_Keine Anmerkungen._", "");
+  return lines.join("\n");
+}
+
+export function annotationsToJson(name: string, annotations: Annotation[], pageCount: number): string {
+  return JSON.stringify(
+    {
+      format: ANNOTATIONS_JSON_FORMAT,
+      version: ANNOTATIONS_JSON_VERSION,
+      document: { name, pageCount },
+      exportedAt: new Date().toISOString(),
+      annotations: sortAnnotations(annotations),
+    },
+    null,
+    2
+  );
+}
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+const isPoint = (value: unknown): value is AnnotationPoint =>
+  !!value && isNumber((value as AnnotationPoint).x) && isNumber((value as AnnotationPoint).y);
+const isRect = (value: unknown): value is AnnotationRect =>
+  isPoint(value) && isNumber((value as AnnotationRect).width) && isNumber((value as AnnotationRect).height);
+
+function parseJsonAnnotation(raw: Record<string, unknown>): Annotation | null {
+  if (typeof raw.id !== "string" || !isNumber(raw.pageNum) || raw.pageNum < 1) return null;
+  const now = new Date().toISOString();
+  const base = {
+    id: raw.id,
+    pageNum: raw.pageNum,
+    color: (typeof raw.color === "string" && raw.color in ANNOTATION_COLORS ? raw.color : "yellow") as AnnotationColor,
+    note: typeof raw.note === "string" ? raw.note : "",
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : now,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : now,
+  };
+
+  switch (raw.type) {
+    case "highlight":
+      if (!Array.isArray(raw.rects) || !raw.rects.every(isRect)) return null;
+      return { ...base, type: "highlight", rects: raw.rects, quote: typeof raw.quote === "string" ? raw.quote : "" };
+    case "note":
+      if (!isPoint(raw.position)) return null;
+      return { ...base, type: "note", position: raw.position };
+    case "ink":
+      if (!Array.isArray(raw.paths) || !raw.paths.every((path) => Array.isArray(path) && path.every(isPoint))) {
+        return null;
+      }
+      return { ...base, type: "ink", paths: raw.paths, strokeWidth: isNumber(raw.strokeWidth) ? raw.strokeWidth : 2 };
+    default:
+      return null;
+  }
+}
+
+// Accepts exports of this and older format versions; null when the file
+// isn't one of ours at all. Invalid entries are skipped.
+export function parseAnnotationsJson(text: string): Annotation[] | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const file = data as { format?: unknown; version?: unknown; annotations?: unknown };
+  if (file?.format !== ANNOTATIONS_JSON_FORMAT || !isNumber(file.version) || !Array.isArray(file.annotations)) {
+    return null;
+  }
+  if (file.version > ANNOTATIONS_JSON_VERSION) return null;
+
+  return file.annotations
+    .map((raw) => (raw && typeof raw === "object" ? parseJsonAnnotation(raw as Record<string, unknown>) : null))
+    .filter((annotation): annotation is Annotation => annotation !== null);
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const hexColor = (color: AnnotationColor) => ANNOTATION_COLORS[color].hex.toUpperCase();
+
+function xfdfRect(points: AnnotationPoint[], margin = 0) {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  return [Math.min(...xs) - margin, Math.min(...ys) - margin, Math.max(...xs) + margin, Math.max(...ys) + margin]
+    .map(formatNumber)
+    .join(",");
+}
+
+// XFDF as Acrobat writes it: PDF user space coordinates, zero-based pages
+export function annotationsToXfdf(
+  name: string,
+  annotations: Annotation[],
+  geometry: (pageNum: number) => PageGeometry
+): string {
+  const elements = sortAnnotations(annotations).map((annotation) => {
+    const { box, rotation } = geometry(annotation.pageNum);
+    const attributes = [
+      `page="${annotation.pageNum - 1}"`,
+      `color="${hexColor(annotation.color)}"`,
+      `name="${escapeXml(annotation.id)}"`,
+      `date="${pdfDate(annotation.updatedAt)}"`,
+      `creationdate="${pdfDate(annotation.createdAt)}"`,
+      `flags="print"`,
+    ];
+    const contents = annotation.note ? `<contents>${escapeXml(annotation.note)}</contents>` : "";
+
+    if (annotation.type === "highlight") {
+      const rects = annotation.rects.map((rect) => toPdfRect(rect, box, rotation));
+      const coords = rects
+        .flatMap((r) => [r.x, r.y + r.height, r.x + r.width, r.y + r.height, r.x, r.y, r.x + r.width, r.y])
+        .map(formatNumber)
+        .join(",");
+      const corners = rects.flatMap((r) => [
+        { x: r.x, y: r.y },
+        { x: r.x + r.width, y: r.y + r.height },
+      ]);
+      return `    <highlight ${attributes.join(" ")} rect="${xfdfRect(corners)}" coords="${coords}" opacity="0.38">${contents}</highlight>`;
+    }
+    if (annotation.type === "ink") {
+      const paths = annotation.paths.map((path) => path.map((point) => toPdfPoint(point, box, rotation)));
+      const gestures = paths
+        .map((path) => `<gesture>${path.map((p) => `${formatNumber(p.x)},${formatNumber(p.y)}`).join(";")}</gesture>`)
+        .join("");
+      return `    <ink ${attributes.join(" ")} rect="${xfdfRect(paths.flat(), annotation.strokeWidth)}" width="${
+        annotation.strokeWidth
+      }"><inklist>${gestures}</inklist>${contents}</ink>`;
+    }
+    const point = toPdfPoint(annotation.position, box, rotation);
+    return `    <text ${attributes.join(" ")} rect="${xfdfRect([point, { x: point.x + 18, y: point.y - 18 }])}" icon="Comment">${contents}</text>`;
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<xfdf xmlns="http://ns.adobe.com/xfdf/" xml:space="preserve">`,
+    `  <f href="${escapeXml(name)}"/>`,
+    `  <annots>`,
+    ...elements,
+    `  </annots>`,
+    `</xfdf>`,
+    "",
+  ].join("\n");
+}
+
+// Other tools use their own palettes; map to the closest of ours
+function nearestColor(hex: string | null): AnnotationColor {
+  const match = hex?.match(/^#?([0-9a-f]{6})$/i);
+  if (!match) return "yellow";
+  const [r, g, b] = [0, 2, 4].map((idx) => Number.parseInt(match[1].slice(idx, idx + 2), 16) / 255);
+  let best: AnnotationColor = "yellow";
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const color of Object.keys(ANNOTATION_COLORS) as AnnotationColor[]) {
+    const [cr, cg, cb] = colorComponents(color);
+    const distance = (r - cr) ** 2 + (g - cg) ** 2 + (b - cb) ** 2;
+    if (distance < bestDistance) {
+      best = color;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+const parseNumbers = (value: string | null) =>
+  (value ?? "")
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter(Number.isFinite);
+
+// The annotation elements of an XFDF file with the page each is on, or null
+// when the text isn't XFDF. Pages outside the document are left out.
+function readXfdfAnnots(text: string, numPages: number): Array<[Element, number]> | null {
+  const xml = new DOMParser().parseFromString(text, "application/xml");
+  if (xml.getElementsByTagName("parsererror").length > 0 || xml.documentElement.localName !== "xfdf") return null;
+
+  const annots = xml.getElementsByTagName("annots")[0];
+  return Array.from(annots?.children ?? [])
+    .map((element): [Element, number] => [element, Number(element.getAttribute("page")) + 1])
+    .filter(([, pageNum]) => Number.isInteger(pageNum) && pageNum >= 1 && pageNum <= numPages);
+}
+
+// Pages an XFDF file has annotations on, so only their geometry is loaded
+// for parseXfdf
+export function xfdfPageNums(text: string, numPages: number): number[] {
+  return Array.from(new Set(readXfdfAnnots(text, numPages)?.map(([, pageNum]) => pageNum)));
+}
+
+// Highlights, sticky notes and ink from an XFDF file; other annotation types
+// are skipped. Null when the text isn't XFDF.
+export function parseXfdf(
+  text: string,
+  numPages: number,
+  geometry: (pageNum: number) => PageGeometry
+): Annotation[] | null {
+  const annots = readXfdfAnnots(text, numPages);
+  if (!annots) return null;
+
+  const annotations: Annotation[] = [];
+  for (const [element, pageNum] of annots) {
+
+    const { box, rotation } = geometry(pageNum);
+    const toViewer = (x: number, y: number) => fromPdfPoint({ x, y }, box, rotation);
+    const now = new Date().toISOString();
+    const base = {
+      id: element.getAttribute("name") || crypto.randomUUID(),
+      pageNum,
+      color: nearestColor(element.getAttribute("color")),
+      note: element.getElementsByTagName("contents")[0]?.textContent ?? "",
+      createdAt: parsePdfDate(element.getAttribute("creationdate")) ?? now,
+      updatedAt: parsePdfDate(element.getAttribute("date")) ?? now,
+    };
+
+    if (element.localName === "highlight") {
+      const coords = parseNumbers(element.getAttribute("coords"));
+      const rects: AnnotationRect[] = [];
+      for (let idx = 0; idx + 7 < coords.length; idx += 8) {
+        const corners = [0, 2, 4, 6].map((offset) => toViewer(coords[idx + offset], coords[idx + offset + 1]));
+        const xs = corners.map((p) => p.x);
+        const ys = corners.map((p) => p.y);
+        rects.push({
+          x: Math.min(...xs),
+          y: Math.min(...ys),
+          width: Math.max(...xs) - Math.min(...xs),
+          height: Math.max(...ys) - Math.min(...ys),
+        });
+      }
+      if (rects.length > 0) annotations.push({ ...base, type: "highlight", rects, quote: "" });
+    } else if (element.localName === "ink") {
+      const paths = Array.from(element.getElementsByTagName("gesture"))
+        .map((gesture) => {
+          const numbers = parseNumbers(gesture.textContent);
+          const points: AnnotationPoint[] = [];
+          for (let idx = 0; idx + 1 < numbers.length; idx += 2) points.push(toViewer(numbers[idx], numbers[idx + 1]));
+          return points;
+        })
+        .filter((path) => path.length > 1);
+      const width = Number(element.getAttribute("width"));
+      if (paths.length > 0) {
+        annotations.push({ ...base, type: "ink", paths, strokeWidth: width > 0 ? width : 2 });
+      }
+    } else if (element.localName === "text") {
+      const [x1, y1, , y2] = parseNumbers(element.getAttribute("rect"));
+      if (x1 === undefined || y2 === undefined) continue;
+      annotations.push({ ...base, type: "note", position: toViewer(x1, Math.max(y1, y2)) });
+    }
+  }
+  return annotations;
+}
+
+interface GeometryDocument {
+  getPage: (pageNum: number) => Promise<{ view: number[]; rotate: number }>;
+}
+
+// Reads box and rotation for the given pages from pdf.js
+export async function loadPageGeometry(
+  pdf: GeometryDocument,
+  pageNums: Iterable<number>
+): Promise<(pageNum: number) => PageGeometry> {
+  const geometry = new Map<number, PageGeometry>();
+  for (const pageNum of new Set(pageNums)) {
+    const page = await pdf.getPage(pageNum);
+    const [x1, y1, x2, y2] = page.view;
+    geometry.set(pageNum, {
+      box: { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) },
+      rotation: page.rotate,
+    });
+  }
+  return (pageNum) => geometry.get(pageNum) ?? { box: { x: 0, y: 0, width: 612, height: 792 }, rotation: 0 };
+}
@@ -0,0 +1,87 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { ANNOTATION_COLORS } from "@/lib/annotations";
+import type { Annotation, AnnotationColor } from "@/types/pdf";
+
+type AnnotationRow = Database["public"]["Tables"]["pdf_annotations"]["Row"];
+
+const ANNOTATION_TYPES: Annotation["type"][] = ["highlight", "note", "ink"];
+
+// Geometry lives in `data`; everything the database may want to filter on has
+// its own column
+function annotationData(annotation: Annotation): Json {
+  switch (annotation.type) {
+    case "highlight":
+      return { rects: annotation.rects, quote: annotation.quote } as unknown as Json;
+    case "note":
+      return { position: annotation.position } as unknown as Json;
+    case "ink":
+      return { paths: annotation.paths, strokeWidth: annotation.strokeWidth } as unknown as Json;
+  }
+}
+
+export function annotationToRow(pdfId: string, annotation: Annotation): AnnotationRow {
+  return {
+    id: annotation.id,
+    pdf_id: pdfId,
+    page_num: annotation.pageNum,
+    type: annotation.type,
+    color: annotation.color,
+    note: annotation.note,
+    data: annotationData(annotation),
+    created_at: annotation.createdAt,
+    updated_at: annotation.updatedAt,
+  };
+}
+
+// Rows written by newer clients with unknown types are skipped, not guessed at
+export function annotationFromRow(row: AnnotationRow): Annotation | null {
+  const type = row.type as Annotation["type"];
+  if (!ANNOTATION_TYPES.includes(type)) return null;
+
+  const data = (row.data ?? {}) as Record<string, unknown>;
+  const base = {
+    id: row.id,
+    pageNum: row.page_num,
+    color: (row.color in ANNOTATION_COLORS ? row.color : "yellow") as AnnotationColor,
+    note: row.note ?? "",
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+
+  switch (type) {
+    case "highlight":
+      if (!Array.isArray(data.rects)) return null;
+      return { ...base, type, rects: data.rects, quote: typeof data.quote === "string" ? data.quote : "" };
+    case "note":
+      if (!data.position || typeof data.position !== "object") return null;
+      return { ...base, type, position: data.position as { x: number; y: number } };
+    case "ink":
+      if (!Array.isArray(data.paths)) return null;
+      return { ...base, type, paths: data.paths, strokeWidth: typeof data.strokeWidth === "number" ? data.strokeWidth : 2 };
+  }
+}
+
+export async function loadAnnotations(pdfId: string): Promise<Annotation[]> {
+  const { data, error } = await supabase
+    .from("pdf_annotations")
+    .select("*")
+    .eq("pdf_id", pdfId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Annotation load error:", error);
+    return [];
+  }
+  return (data ?? []).map(annotationFromRow).filter((annotation): annotation is Annotation => annotation !== null);
+}
+
+export async function saveAnnotation(pdfId: string, annotation: Annotation): Promise<void> {
+  const { error } = await supabase.from("pdf_annotations").upsert(annotationToRow(pdfId, annotation));
+  if (error) console.error("Annotation save error:", error);
+}
+
+export async function deleteAnnotation(id: string): Promise<void> {
+  const { error } = await supabase.from("pdf_annotations").delete().eq("id", id);
+  if (error) console.error("Annotation delete error:", error);
+}
@@ -0,0 +1,156 @@
+import { clientToPagePoint, rotatedSize } from "@/lib/pageRotation";
+import { normalizeCopiedText } from "@/lib/textLayer";
+import type { Annotation, AnnotationColor, AnnotationPoint, AnnotationRect } from "@/types/pdf";
+
+export const ANNOTATION_COLORS: Record<AnnotationColor, { label: string; hex: string }> = {
+  yellow: { label: "Gelb", hex: "#facc15" },
+  green: { label: "Grün", hex: "#4ade80" },
+  blue: { label: "Blau", hex: "#60a5fa" },
+  pink: { label: "Rosa", hex: "#f472b6" },
+};
+
+export type AnnotationTool = "highlight" | "note" | "ink";
+
+export const INK_STROKE_WIDTH = 2;
+
+export const createAnnotationId = () => crypto.randomUUID();
+
+// Rects closer than this (in page units) on the same line are joined, so a
+// highlight over several text spans draws as one bar instead of a comb
+const LINE_MERGE_GAP = 3;
+
+const sameLine = (a: AnnotationRect, b: AnnotationRect) => {
+  const overlap = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return overlap > Math.min(a.height, b.height) / 2;
+};
+
+export function mergeLineRects(rects: AnnotationRect[]): AnnotationRect[] {
+  const sorted = [...rects].sort((a, b) => a.y - b.y || a.x - b.x);
+  const merged: AnnotationRect[] = [];
+
+  for (const rect of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && sameLine(last, rect) && rect.x <= last.x + last.width + LINE_MERGE_GAP) {
+      const right = Math.max(last.x + last.width, rect.x + rect.width);
+      const bottom = Math.max(last.y + last.height, rect.y + rect.height);
+      last.y = Math.min(last.y, rect.y);
+      last.width = right - last.x;
+      last.height = bottom - last.y;
+    } else {
+      merged.push({ ...rect });
+    }
+  }
+  return merged;
+}
+
+export interface SelectedPageText {
+  pageNum: number;
+  rects: AnnotationRect[];
+  quote: string;
+}
+
+// Splits a text selection into per-page rects (in page units) and quotes.
+// `pages` maps page numbers to their wrapper and text layer elements, and the
+// rotation the page is shown at.
+export function selectionToPageText(
+  range: Range,
+  pages: Map<number, { element: HTMLElement; textLayer: HTMLElement; rotation?: number }>,
+  scale: number
+): SelectedPageText[] {
+  const result: SelectedPageText[] = [];
+
+  for (const [pageNum, { element, textLayer, rotation = 0 }] of pages) {
+    if (!range.intersectsNode(textLayer)) continue;
+
+    const pageRange = document.createRange();
+    pageRange.selectNodeContents(textLayer);
+    if (range.compareBoundaryPoints(Range.START_TO_START, pageRange) > 0) {
+      pageRange.setStart(range.startContainer, range.startOffset);
+    }
+    if (range.compareBoundaryPoints(Range.END_TO_END, pageRange) < 0) {
+      pageRange.setEnd(range.endContainer, range.endOffset);
+    }
+
+    const quote = normalizeCopiedText(pageRange.toString()).trim();
+    if (!quote) continue;
+
+    const pageRect = element.getBoundingClientRect();
+    const size = rotatedSize({ width: pageRect.width / scale, height: pageRect.height / scale }, rotation);
+    const rects = Array.from(pageRange.getClientRects())
+      .filter((rect) => rect.width > 0.5 && rect.height > 0.5)
+      .map((rect) => {
+        const a = clientToPagePoint(rect.left, rect.top, pageRect, size, rotation);
+        const b = clientToPagePoint(rect.right, rect.bottom, pageRect, size, rotation);
+        return {
+          x: Math.min(a.x, b.x),
+          y: Math.min(a.y, b.y),
+          width: Math.abs(b.x - a.x),
+          height: Math.abs(b.y - a.y),
+        };
+      })
+      .filter((rect) => rect.x < size.width && rect.y < size.height);
+
+    if (rects.length > 0) result.push({ pageNum, rects: mergeLineRects(rects), quote });
+  }
+  return result;
+}
+
+// Top-left-most point of an annotation, used to sort and to jump to it
+export function annotationAnchor(annotation: Annotation): AnnotationPoint {
+  switch (annotation.type) {
+    case "highlight":
+      return annotation.rects.reduce(
+        (point, rect) => ({ x: Math.min(point.x, rect.x), y: Math.min(point.y, rect.y) }),
+        { x: Number.POSITIVE_INFINITY, y: Number.POSITIVE_INFINITY }
+      );
+    case "note":
+      return annotation.position;
+    case "ink":
+      return annotation.paths.flat().reduce(
+        (point, p) => ({ x: Math.min(point.x, p.x), y: Math.min(point.y, p.y) }),
+        { x: Number.POSITIVE_INFINITY, y: Number.POSITIVE_INFINITY }
+      );
+  }
+}
+
+// Reading order: by page, then top to bottom, then left to right
+export function sortAnnotations(annotations: Annotation[]): Annotation[] {
+  return [...annotations].sort((a, b) => {
+    if (a.pageNum !== b.pageNum) return a.pageNum - b.pageNum;
+    const anchorA = annotationAnchor(a);
+    const anchorB = annotationAnchor(b);
+    return anchorA.y - anchorB.y || anchorA.x - anchorB.x;
+  });
+}
+
+// Page, kind and geometry, rounded to a tenth of a page unit so the same mark
+// still matches after a round trip through XFDF
+export function annotationFingerprint(annotation: Annotation): string {
+  const geometry =
+    annotation.type === "highlight"
+      ? annotation.rects
+      : annotation.type === "note"
+        ? annotation.position
+        : annotation.paths;
+  const rounded = JSON.stringify(geometry, (_key, value) =>
+    typeof value === "number" ? Math.round(value * 10) / 10 : value
+  );
+  return `${annotation.pageNum}:${annotation.type}:${rounded}`;
+}
+
+// The imported annotations the document doesn't have yet, by id or by
+// fingerprint, so importing the same file twice adds nothing the second time.
+// They get fresh ids, since ids are unique across the whole library and the
+// file may come from another document.
+export function newImportedAnnotations(existing: Annotation[], imported: Annotation[]): Annotation[] {
+  const ids = new Set(existing.map((annotation) => annotation.id));
+  const fingerprints = new Set(existing.map(annotationFingerprint));
+  const added: Annotation[] = [];
+  for (const annotation of imported) {
+    const fingerprint = annotationFingerprint(annotation);
+    if (ids.has(annotation.id) || fingerprints.has(fingerprint)) continue;
+    fingerprints.add(fingerprint);
+    added.push({ ...annotation, id: createAnnotationId() });
+  }
+  return added;
+}
@@ -0,0 +1,32 @@
+// Label of a physical page, falling back to its number when the document
+// defines no labels (or an empty one) for it
+export function getPageLabel(pageNum: number, labels: string[] | null): string {
+  const label = labels?.[pageNum - 1];
+  return label ? label : String(pageNum);
+}
+
+export function hasCustomLabel(pageNum: number, labels: string[] | null): boolean {
+  return getPageLabel(pageNum, labels) !== String(pageNum);
+}
+
+// Resolves what the reader typed into the page field. A document's own
+// labels ("iv", "A-3") win over physical numbers, so typing "5" in a book
+// with roman front matter goes to the page printed as 5; numbers that are no
+// label fall back to the physical index.
+export function resolvePageInput(input: string, labels: string[] | null, numPages: number): number | null {
+  const value = input.trim();
+  if (!value) return null;
+
+  if (labels) {
+    const exact = labels.indexOf(value);
+    if (exact !== -1) return exact + 1;
+
+    const lower = value.toLocaleLowerCase("de");
+    const loose = labels.findIndex((label) => label.toLocaleLowerCase("de") === lower);
+    if (loose !== -1) return loose + 1;
+  }
+
+  if (!/^\d+$/.test(value)) return null;
+  const pageNum = Number.parseInt(value, 10);
+  return pageNum >= 1 && pageNum <= numPages ? pageNum : null;
+}
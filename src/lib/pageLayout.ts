@@ -0,0 +1,66 @@
+import type { PageSize } from "@/types/pdf";
+
+// How pages are arranged: one continuous column, one continuous row, pairs
+// side by side (with or without the cover on its own, so that even pages sit
+// on the left like in a printed book), or one page at a time
+export type PageLayout = "vertical" | "horizontal" | "spread" | "book" | "paged";
+
+export const PAGE_LAYOUTS: PageLayout[] = ["vertical", "horizontal", "spread", "book", "paged"];
+
+export const PAGE_LAYOUT_LABELS: Record<PageLayout, string> = {
+  vertical: "Fortlaufend",
+  horizontal: "Horizontal",
+  spread: "Doppelseiten",
+  book: "Doppelseiten mit Titelblatt",
+  paged: "Einzelseite zum Blättern",
+};
+
+export const isSpreadLayout = (layout: PageLayout) => layout === "spread" || layout === "book";
+
+// Space between the two pages of a spread, in CSS pixels
+export const SPREAD_GAP = 4;
+
+// The pages of the document grouped by what sits side by side
+export function pageRows(numPages: number, layout: PageLayout): number[][] {
+  const rows: number[][] = [];
+  if (!isSpreadLayout(layout)) {
+    for (let pageNum = 1; pageNum <= numPages; pageNum++) rows.push([pageNum]);
+    return rows;
+  }
+
+  let pageNum = 1;
+  if (layout === "book" && numPages > 0) rows.push([pageNum++]);
+  for (; pageNum <= numPages; pageNum += 2) {
+    rows.push(pageNum < numPages ? [pageNum, pageNum + 1] : [pageNum]);
+  }
+  return rows;
+}
+
+export const rowIndexOf = (rows: number[][], pageNum: number) => rows.findIndex((row) => row.includes(pageNum));
+
+// First page of the row `step` rows away from the one holding `pageNum`,
+// clamped to the document
+export function steppedPage(rows: number[][], pageNum: number, step: number): number {
+  if (rows.length === 0) return pageNum;
+  const index = Math.max(0, Math.min(rows.length - 1, rowIndexOf(rows, pageNum) + step));
+  return rows[index][0];
+}
+
+// What the fit zoom modes fit into the viewport for the row holding
+// `pageNum`. A page alone in a spread layout (the cover, or the last page)
+// counts as a full spread, so the zoom doesn't jump while paging through.
+export function rowFitSize(rows: number[][], pageNum: number, pageSizes: PageSize[], layout: PageLayout): PageSize | null {
+  const row = rows[rowIndexOf(rows, pageNum)];
+  const sizes = (row ?? []).map((num) => pageSizes[num - 1]).filter(Boolean);
+  if (sizes.length === 0) return null;
+
+  const count = isSpreadLayout(layout) ? 2 : 1;
+  const width =
+    sizes.length === count
+      ? sizes.reduce((sum, size) => sum + size.width, 0)
+      : sizes[0].width * count;
+  return {
+    width: width + SPREAD_GAP * (count - 1),
+    height: Math.max(...sizes.map((size) => size.height)),
+  };
+}
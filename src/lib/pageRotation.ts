@@ -0,0 +1,101 @@
+import { PDFDocument, degrees } from "pdf-lib";
+import type { Annotation, AnnotationGeometry, AnnotationPoint, AnnotationRect, PageSize } from "@/types/pdf";
+
+// Extra clockwise rotation per page in degrees, on top of the page's own
+// /Rotate. Pages without an entry are shown as they are.
+export type PageRotations = Map<number, number>;
+
+export const normalizeRotation = (rotation: number) => ((rotation % 360) + 360) % 360;
+
+export const isQuarterTurn = (rotation: number) => normalizeRotation(rotation) % 180 !== 0;
+
+export function rotatedSize(size: PageSize, rotation: number): PageSize {
+  return isQuarterTurn(rotation) ? { width: size.height, height: size.width } : size;
+}
+
+// `rotations` with `delta` added to each of `pageNums`; pages back at 0° are dropped
+export function rotatePages(rotations: PageRotations, pageNums: number[], delta: number): PageRotations {
+  const next = new Map(rotations);
+  for (const pageNum of pageNums) {
+    const rotation = normalizeRotation((next.get(pageNum) ?? 0) + delta);
+    if (rotation === 0) next.delete(pageNum);
+    else next.set(pageNum, rotation);
+  }
+  return next;
+}
+
+// A point of the unrotated page (page units, `size` unrotated) where it ends
+// up once the page is turned clockwise by `rotation`
+export function rotatePoint(point: AnnotationPoint, size: PageSize, rotation: number): AnnotationPoint {
+  switch (normalizeRotation(rotation)) {
+    case 90:
+      return { x: size.height - point.y, y: point.x };
+    case 180:
+      return { x: size.width - point.x, y: size.height - point.y };
+    case 270:
+      return { x: point.y, y: size.width - point.x };
+    default:
+      return point;
+  }
+}
+
+// Inverse of rotatePoint for a point given on the turned page
+export function unrotatePoint(point: AnnotationPoint, size: PageSize, rotation: number): AnnotationPoint {
+  const turned = rotatedSize(size, rotation);
+  return rotatePoint(point, turned, 360 - normalizeRotation(rotation));
+}
+
+const rotateRect = (rect: AnnotationRect, size: PageSize, rotation: number): AnnotationRect => {
+  const a = rotatePoint({ x: rect.x, y: rect.y }, size, rotation);
+  const b = rotatePoint({ x: rect.x + rect.width, y: rect.y + rect.height }, size, rotation);
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+};
+
+// The geometry of `annotation` after its page (unrotated `size`) is turned
+// for good, so it stays on the same content
+export function rotateAnnotationGeometry(
+  annotation: Annotation,
+  size: PageSize,
+  rotation: number
+): AnnotationGeometry {
+  switch (annotation.type) {
+    case "highlight":
+      return { rects: annotation.rects.map((rect) => rotateRect(rect, size, rotation)) };
+    case "note":
+      return { position: rotatePoint(annotation.position, size, rotation) };
+    case "ink":
+      return { paths: annotation.paths.map((path) => path.map((point) => rotatePoint(point, size, rotation))) };
+  }
+}
+
+// A copy of the document with `rotations` added to the pages' /Rotate
+export async function rotatePdf(source: ArrayBuffer, rotations: PageRotations, name: string): Promise<File> {
+  const doc = await PDFDocument.load(source);
+  doc.getPages().forEach((page, idx) => {
+    const rotation = rotations.get(idx + 1);
+    if (rotation) page.setRotation(degrees(normalizeRotation(page.getRotation().angle + rotation)));
+  });
+  return new File([await doc.save()], name, { type: "application/pdf" });
+}
+
+// Page point (unrotated page units) under a client position, given the
+// on-screen box of the page turned by `rotation`
+export function clientToPagePoint(
+  clientX: number,
+  clientY: number,
+  bounds: { left: number; top: number; width: number; height: number },
+  size: PageSize,
+  rotation: number
+): AnnotationPoint {
+  const turned = rotatedSize(size, rotation);
+  const point = {
+    x: ((clientX - bounds.left) / bounds.width) * turned.width,
+    y: ((clientY - bounds.top) / bounds.height) * turned.height,
+  };
+  return unrotatePoint(point, size, rotation);
+}
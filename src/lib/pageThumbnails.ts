@@ -0,0 +1,58 @@
+interface ThumbnailViewport {
+  width: number;
+  height: number;
+}
+
+interface ThumbnailPage {
+  // The page's own /Rotate
+  rotate?: number;
+  getViewport: (params: { scale: number; rotation?: number }) => ThumbnailViewport;
+  render: (params: { canvasContext: CanvasRenderingContext2D; viewport: ThumbnailViewport }) => {
+    promise: Promise<void>;
+  };
+  cleanup?: () => void;
+}
+
+export interface ThumbnailDocument {
+  getPage: (pageNum: number) => Promise<ThumbnailPage>;
+}
+
+interface ThumbnailOptions {
+  /** Target width in CSS pixels; takes precedence over `scale`. */
+  width?: number;
+  scale?: number;
+  quality?: number;
+  // Extra clockwise rotation on top of the page's own, in degrees
+  rotation?: number;
+}
+
+// Renders one page to an offscreen canvas and returns it as a JPEG data URL.
+// Used for the bookshelf covers as well as the viewer's page rail.
+export async function renderPageThumbnail(
+  pdf: ThumbnailDocument,
+  pageNum: number,
+  { width, scale = 0.5, quality = 0.85, rotation = 0 }: ThumbnailOptions = {}
+): Promise<string | null> {
+  const page = await pdf.getPage(pageNum);
+  const pageRotation = ((page.rotate ?? 0) + rotation) % 360;
+  const baseViewport = page.getViewport({ scale: 1, rotation: pageRotation });
+  const dpr = width !== undefined ? window.devicePixelRatio || 1 : 1;
+  const thumbScale = width !== undefined ? (width / baseViewport.width) * dpr : scale;
+  const viewport = page.getViewport({ scale: thumbScale, rotation: pageRotation });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  const dataUrl = canvas.toDataURL("image/jpeg", quality);
+
+  // Free the bitmap and pdf.js' per-page resources right away; thumbnails are
+  // generated in bulk and would otherwise pile up until GC
+  canvas.width = 0;
+  canvas.height = 0;
+  page.cleanup?.();
+  return dataUrl;
+}
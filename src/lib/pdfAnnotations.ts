@@ -0,0 +1,196 @@
+import { format } from "date-fns";
+import { de } from "date-fns/locale";
+import { parsePdfDate } from "@/lib/pdfExport";
+import type { AnnotationPoint, AnnotationRect } from "@/types/pdf";
+
+export type NativeAnnotationKind =
+  | "highlight"
+  | "underline"
+  | "strikeOut"
+  | "squiggly"
+  | "ink"
+  | "freeText"
+  | "stamp"
+  | "text"
+  | "shape";
+
+export interface NativeComment {
+  id: string;
+  author: string;
+  contents: string;
+  // ISO date, null when the file doesn't say
+  modifiedAt: string | null;
+}
+
+// An annotation that came with the PDF (Acrobat comments, highlights,
+// stamps…). Geometry is in page units at scale 1, origin top left, like our
+// own annotations.
+export interface NativeAnnotation extends NativeComment {
+  pageNum: number;
+  kind: NativeAnnotationKind;
+  rect: AnnotationRect;
+  // Marked text of highlight/underline/strike-out/squiggly
+  quads: AnnotationRect[];
+  paths: AnnotationPoint[][];
+  color: string | null;
+  // pdf.js paints annotations with an appearance stream into the canvas;
+  // the others are drawn by the viewer
+  hasAppearance: boolean;
+  // Stamp name or free text shown when there is no appearance
+  label: string;
+  replies: NativeComment[];
+}
+
+type RawPoints = ArrayLike<number> | Array<{ x: number; y: number }>;
+
+interface RawAnnotation {
+  id: string;
+  subtype: string;
+  rect: number[];
+  color?: ArrayLike<number> | null;
+  titleObj?: { str?: string };
+  contentsObj?: { str?: string };
+  modificationDate?: string | null;
+  creationDate?: string | null;
+  hasAppearance?: boolean;
+  inReplyTo?: string;
+  // pdf.js 3 reports quads and ink as point objects, later versions as flat arrays
+  quadPoints?: RawPoints[] | ArrayLike<number> | null;
+  inkLists?: RawPoints[] | null;
+  textContent?: string[] | null;
+  name?: string;
+}
+
+interface AnnotationViewport {
+  convertToViewportPoint: (x: number, y: number) => number[];
+  convertToViewportRectangle: (rect: number[]) => number[];
+}
+
+interface AnnotationPage {
+  getViewport: (params: { scale: number }) => AnnotationViewport;
+  getAnnotations: (params?: { intent?: string }) => Promise<RawAnnotation[]>;
+}
+
+const KINDS: Record<string, NativeAnnotationKind> = {
+  Highlight: "highlight",
+  Underline: "underline",
+  StrikeOut: "strikeOut",
+  Squiggly: "squiggly",
+  Ink: "ink",
+  FreeText: "freeText",
+  Stamp: "stamp",
+  Text: "text",
+  Square: "shape",
+  Circle: "shape",
+  Line: "shape",
+  Polygon: "shape",
+  PolyLine: "shape",
+  Caret: "shape",
+  FileAttachment: "shape",
+};
+
+const flatten = (points: RawPoints | ArrayLike<number>): number[] => {
+  const list = Array.from(points as ArrayLike<number | { x: number; y: number }>);
+  return list.flatMap((value) => (typeof value === "number" ? [value] : [value.x, value.y]));
+};
+
+const toHex = (color: ArrayLike<number> | null | undefined) =>
+  color && color.length === 3
+    ? `#${Array.from(color, (value) => Math.round(value).toString(16).padStart(2, "0")).join("")}`
+    : null;
+
+const boundingRect = (points: AnnotationPoint[]): AnnotationRect => {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  return {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+};
+
+const comment = (raw: RawAnnotation): NativeComment => ({
+  id: raw.id,
+  author: raw.titleObj?.str?.trim() ?? "",
+  contents: raw.contentsObj?.str?.trim() ?? "",
+  modifiedAt: parsePdfDate(raw.modificationDate ?? raw.creationDate ?? null),
+});
+
+// Markup annotations of one page, with replies folded into the annotation
+// they answer. Links and form fields are handled elsewhere; popups only carry
+// their parent's text, which is already on the parent.
+export async function loadNativeAnnotations(page: AnnotationPage, pageNum: number): Promise<NativeAnnotation[]> {
+  const raw = await page.getAnnotations({ intent: "display" }).catch(() => []);
+  const viewport = page.getViewport({ scale: 1 });
+  const toPoint = (x: number, y: number): AnnotationPoint => {
+    const [px, py] = viewport.convertToViewportPoint(x, y);
+    return { x: px, y: py };
+  };
+  const pointsOf = (values: number[]) => {
+    const points: AnnotationPoint[] = [];
+    for (let idx = 0; idx + 1 < values.length; idx += 2) points.push(toPoint(values[idx], values[idx + 1]));
+    return points;
+  };
+
+  const annotations: NativeAnnotation[] = [];
+  const replies: Array<{ parentId: string; reply: NativeComment }> = [];
+
+  for (const annotation of raw) {
+    const kind = KINDS[annotation.subtype];
+    if (!kind) continue;
+    if (annotation.inReplyTo) {
+      replies.push({ parentId: annotation.inReplyTo, reply: comment(annotation) });
+      continue;
+    }
+
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(annotation.rect);
+    const quadValues = annotation.quadPoints
+      ? Array.isArray(annotation.quadPoints) && typeof annotation.quadPoints[0] !== "number"
+        ? (annotation.quadPoints as RawPoints[]).map(flatten)
+        : [flatten(annotation.quadPoints as ArrayLike<number>)]
+      : [];
+    const quads: AnnotationRect[] = [];
+    for (const values of quadValues) {
+      for (let idx = 0; idx + 7 < values.length; idx += 8) quads.push(boundingRect(pointsOf(values.slice(idx, idx + 8))));
+    }
+
+    annotations.push({
+      ...comment(annotation),
+      pageNum,
+      kind,
+      rect: { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) },
+      quads,
+      paths: (annotation.inkLists ?? []).map((path) => pointsOf(flatten(path))).filter((path) => path.length > 1),
+      color: toHex(annotation.color),
+      hasAppearance: annotation.hasAppearance ?? false,
+      label: annotation.textContent?.join("\n").trim() || annotation.name || "",
+      replies: [],
+    });
+  }
+
+  for (const { parentId, reply } of replies) {
+    const parent = annotations.find((annotation) => annotation.id === parentId);
+    if (parent) parent.replies.push(reply);
+  }
+  return annotations;
+}
+
+// Whether the annotation says something worth listing on its own, as opposed
+// to a bare highlight or shape
+export const hasComment = (annotation: NativeAnnotation) =>
+  !!annotation.contents || annotation.replies.length > 0 || annotation.kind === "text";
+
+export const NATIVE_KIND_LABELS: Record<NativeAnnotationKind, string> = {
+  highlight: "Markierung",
+  underline: "Unterstreichung",
+  strikeOut: "Durchstreichung",
+  squiggly: "Wellenlinie",
+  ink: "Zeichnung",
+  freeText: "Textfeld",
+  stamp: "Stempel",
+  text: "Kommentar",
+  shape: "Form",
+};
+
+export const formatCommentDate = (iso: string) => format(new Date(iso), "d. MMM yyyy, HH:mm", { locale: de });
@@ -0,0 +1,66 @@
+// A destination resolved to something the viewer can scroll to. `top` and
+// `left` are in PDF user space (origin bottom-left) and null when the
+// destination doesn't pin that coordinate.
+export interface ResolvedDestination {
+  pageNum: number;
+  top: number | null;
+  left: number | null;
+}
+
+type ExplicitDestination = [unknown, { name: string } | null, ...Array<number | null>];
+
+interface DestinationDocument {
+  numPages: number;
+  getDestination: (id: string) => Promise<unknown[] | null>;
+  getPageIndex: (ref: unknown) => Promise<number>;
+}
+
+const asCoordinate = (value: unknown): number | null => (typeof value === "number" ? value : null);
+
+// Resolves a named or explicit destination (as found in outlines and link
+// annotations) to a 1-based page number and position on that page.
+export async function resolveDestination(
+  pdf: DestinationDocument,
+  dest: string | unknown[] | null | undefined
+): Promise<ResolvedDestination | null> {
+  try {
+    const explicit = (typeof dest === "string" ? await pdf.getDestination(dest) : dest) as ExplicitDestination | null;
+    if (!Array.isArray(explicit) || explicit.length === 0) return null;
+
+    const [target, mode, ...args] = explicit;
+    let pageIndex: number;
+    if (typeof target === "number") {
+      pageIndex = target;
+    } else if (target && typeof target === "object") {
+      pageIndex = await pdf.getPageIndex(target);
+    } else {
+      return null;
+    }
+    if (pageIndex < 0 || pageIndex >= pdf.numPages) return null;
+
+    let top: number | null = null;
+    let left: number | null = null;
+    switch (mode?.name) {
+      case "XYZ":
+        left = asCoordinate(args[0]);
+        top = asCoordinate(args[1]);
+        break;
+      case "FitH":
+      case "FitBH":
+        top = asCoordinate(args[0]);
+        break;
+      case "FitV":
+      case "FitBV":
+        left = asCoordinate(args[0]);
+        break;
+      case "FitR":
+        left = asCoordinate(args[0]);
+        top = asCoordinate(args[3]);
+        break;
+    }
+
+    return { pageNum: pageIndex + 1, top, left };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,346 @@
+import {
+  BlendMode,
+  LineCapStyle,
+  LineJoinStyle,
+  PDFDocument,
+  PDFHexString,
+  PDFString,
+  StandardFonts,
+  fill,
+  lineTo,
+  moveTo,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  setFillingRgbColor,
+  setGraphicsState,
+  setLineCap,
+  setLineJoin,
+  setLineWidth,
+  setStrokingRgbColor,
+  stroke,
+  type PDFFont,
+  type PDFOperator,
+  type PDFPage,
+} from "pdf-lib";
+import { ANNOTATION_COLORS } from "@/lib/annotations";
+import type { Annotation, AnnotationColor, AnnotationPoint, AnnotationRect } from "@/types/pdf";
+
+export interface AnnotatedExportOptions {
+  // Paint annotations into the page content instead of adding editable
+  // PDF annotations
+  flatten?: boolean;
+}
+
+export interface PageBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const HIGHLIGHT_OPACITY = 0.38;
+const NOTE_ICON_SIZE = 18;
+const NOTE_FONT_SIZE = 8;
+const NOTE_BOX_WIDTH = 160;
+const NOTE_PADDING = 4;
+
+// Annotation coordinates are what pdf.js shows at scale 1: origin top left,
+// already rotated. PDF user space starts bottom left of the unrotated box.
+export function toPdfPoint(point: AnnotationPoint, box: PageBox, rotation: number): AnnotationPoint {
+  switch (((rotation % 360) + 360) % 360) {
+    case 90:
+      return { x: box.x + point.y, y: box.y + point.x };
+    case 180:
+      return { x: box.x + box.width - point.x, y: box.y + point.y };
+    case 270:
+      return { x: box.x + box.width - point.y, y: box.y + box.height - point.x };
+    default:
+      return { x: box.x + point.x, y: box.y + box.height - point.y };
+  }
+}
+
+// Inverse of toPdfPoint, for annotations coming from other PDF tools
+export function fromPdfPoint(point: AnnotationPoint, box: PageBox, rotation: number): AnnotationPoint {
+  const x = point.x - box.x;
+  const y = point.y - box.y;
+  switch (((rotation % 360) + 360) % 360) {
+    case 90:
+      return { x: y, y: x };
+    case 180:
+      return { x: box.width - x, y };
+    case 270:
+      return { x: box.height - y, y: box.width - x };
+    default:
+      return { x, y: box.height - y };
+  }
+}
+
+export function toPdfRect(rect: AnnotationRect, box: PageBox, rotation: number): PageBox {
+  const a = toPdfPoint({ x: rect.x, y: rect.y }, box, rotation);
+  const b = toPdfPoint({ x: rect.x + rect.width, y: rect.y + rect.height }, box, rotation);
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(a.x - b.x), height: Math.abs(a.y - b.y) };
+}
+
+export const colorComponents = (color: AnnotationColor): [number, number, number] => {
+  const hex = ANNOTATION_COLORS[color].hex;
+  return [1, 3, 5].map((idx) => Number.parseInt(hex.slice(idx, idx + 2), 16) / 255) as [number, number, number];
+};
+
+export const pdfDate = (iso: string) => {
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(
+    date.getUTCHours()
+  )}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+// "D:20260301101500Z" or "D:20260301101500+01'00'" to ISO; the "D:" prefix is optional
+export function parsePdfDate(value: string | null): string | null {
+  const match = value?.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Z+-])?(\d{2})?'?(\d{2})?/);
+  if (!match) return null;
+  const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00", sign, tzHour, tzMinute] = match;
+  const zone = !sign || sign === "Z" ? "Z" : `${sign}${tzHour ?? "00"}:${tzMinute ?? "00"}`;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+const boundsOf = (points: AnnotationPoint[], margin: number): [number, number, number, number] => [
+  Math.min(...points.map((p) => p.x)) - margin,
+  Math.min(...points.map((p) => p.y)) - margin,
+  Math.max(...points.map((p) => p.x)) + margin,
+  Math.max(...points.map((p) => p.y)) + margin,
+];
+
+// Converts an annotation's geometry into PDF user space once, for both the
+// editable and the flattened export
+function pdfGeometry(annotation: Annotation, box: PageBox, rotation: number) {
+  switch (annotation.type) {
+    case "highlight":
+      return { rects: annotation.rects.map((rect) => toPdfRect(rect, box, rotation)), paths: [], point: null };
+    case "ink":
+      return {
+        rects: [],
+        paths: annotation.paths.map((path) => path.map((point) => toPdfPoint(point, box, rotation))),
+        point: null,
+      };
+    case "note":
+      return { rects: [], paths: [], point: toPdfPoint(annotation.position, box, rotation) };
+  }
+}
+
+// Text the standard fonts can't encode (WinAnsi only) is replaced, not dropped
+function encodableText(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text)
+    .map((char) => (char === "\n" || supported.has(char.codePointAt(0) ?? 0) ? char : "?"))
+    .join("");
+}
+
+function wrapText(font: PDFFont, text: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function addAnnotationObjects(doc: PDFDocument, page: PDFPage, annotation: Annotation, box: PageBox, rotation: number) {
+  const context = doc.context;
+  const color = colorComponents(annotation.color);
+  const geometry = pdfGeometry(annotation, box, rotation);
+  const common = {
+    Type: "Annot",
+    C: color,
+    F: 4, // print
+    NM: PDFString.of(annotation.id),
+    M: PDFString.of(pdfDate(annotation.updatedAt)),
+    CreationDate: PDFString.of(pdfDate(annotation.createdAt)),
+    Contents: PDFHexString.fromText(annotation.note),
+    P: page.ref,
+  };
+
+  let dict;
+  if (annotation.type === "highlight") {
+    const rect = boundsOf(
+      geometry.rects.flatMap((r) => [
+        { x: r.x, y: r.y },
+        { x: r.x + r.width, y: r.y + r.height },
+      ]),
+      0
+    );
+    const gs = context.obj({ Type: "ExtGState", BM: "Multiply", ca: HIGHLIGHT_OPACITY, CA: HIGHLIGHT_OPACITY });
+    const appearance = context.formXObject(
+      [
+        pushGraphicsState(),
+        setGraphicsState("GS0"),
+        setFillingRgbColor(...color),
+        ...geometry.rects.map((r) => rectangle(r.x, r.y, r.width, r.height)),
+        fill(),
+        popGraphicsState(),
+      ],
+      { BBox: rect, Resources: { ExtGState: { GS0: gs } } }
+    );
+    dict = context.obj({
+      ...common,
+      Subtype: "Highlight",
+      Rect: rect,
+      CA: HIGHLIGHT_OPACITY,
+      // Upper left, upper right, lower left, lower right per rect
+      QuadPoints: geometry.rects.flatMap((r) => [
+        r.x, r.y + r.height, r.x + r.width, r.y + r.height, r.x, r.y, r.x + r.width, r.y,
+      ]),
+      AP: { N: context.register(appearance) },
+    });
+  } else if (annotation.type === "ink") {
+    const rect = boundsOf(geometry.paths.flat(), annotation.strokeWidth);
+    const operators: PDFOperator[] = [
+      pushGraphicsState(),
+      setStrokingRgbColor(...color),
+      setLineWidth(annotation.strokeWidth),
+      setLineCap(LineCapStyle.Round),
+      setLineJoin(LineJoinStyle.Round),
+    ];
+    for (const path of geometry.paths) {
+      path.forEach((point, idx) => operators.push(idx === 0 ? moveTo(point.x, point.y) : lineTo(point.x, point.y)));
+      operators.push(stroke());
+    }
+    operators.push(popGraphicsState());
+    dict = context.obj({
+      ...common,
+      Subtype: "Ink",
+      Rect: rect,
+      InkList: geometry.paths.map((path) => path.flatMap((point) => [point.x, point.y])),
+      BS: { W: annotation.strokeWidth },
+      AP: { N: context.register(context.formXObject(operators, { BBox: rect })) },
+    });
+  } else {
+    const point = geometry.point!;
+    dict = context.obj({
+      ...common,
+      Subtype: "Text",
+      Name: "Comment",
+      Open: false,
+      Rect: [point.x, point.y - NOTE_ICON_SIZE, point.x + NOTE_ICON_SIZE, point.y],
+    });
+  }
+
+  page.node.addAnnot(context.register(dict));
+}
+
+function drawNoteBox(page: PDFPage, font: PDFFont, anchor: AnnotationPoint, text: string, color: AnnotationColor) {
+  const lines = wrapText(font, encodableText(font, text), NOTE_FONT_SIZE, NOTE_BOX_WIDTH - 2 * NOTE_PADDING);
+  const lineHeight = NOTE_FONT_SIZE * 1.25;
+  const height = lines.length * lineHeight + 2 * NOTE_PADDING;
+  const [r, g, b] = colorComponents(color);
+
+  page.drawRectangle({
+    x: anchor.x,
+    y: anchor.y - height,
+    width: NOTE_BOX_WIDTH,
+    height,
+    color: rgb(1, 1, 1),
+    opacity: 0.92,
+    borderColor: rgb(r, g, b),
+    borderWidth: 1.5,
+  });
+  lines.forEach((line, idx) => {
+    page.drawText(line, {
+      x: anchor.x + NOTE_PADDING,
+      y: anchor.y - NOTE_PADDING - (idx + 1) * lineHeight + 2,
+      size: NOTE_FONT_SIZE,
+      font,
+      color: rgb(0.1, 0.1, 0.1),
+    });
+  });
+}
+
+// Flattened notes become visible boxes, drawn in unrotated page space
+function drawAnnotation(page: PDFPage, font: PDFFont, annotation: Annotation, box: PageBox, rotation: number) {
+  const [r, g, b] = colorComponents(annotation.color);
+  const geometry = pdfGeometry(annotation, box, rotation);
+
+  for (const rect of geometry.rects) {
+    page.drawRectangle({ ...rect, color: rgb(r, g, b), opacity: HIGHLIGHT_OPACITY, blendMode: BlendMode.Multiply });
+  }
+  for (const path of geometry.paths) {
+    for (let idx = 1; idx < path.length; idx++) {
+      page.drawLine({
+        start: path[idx - 1],
+        end: path[idx],
+        thickness: annotation.type === "ink" ? annotation.strokeWidth : 1,
+        color: rgb(r, g, b),
+        lineCap: LineCapStyle.Round,
+      });
+    }
+  }
+
+  if (geometry.point) {
+    page.drawRectangle({
+      x: geometry.point.x,
+      y: geometry.point.y - NOTE_ICON_SIZE / 2,
+      width: NOTE_ICON_SIZE / 2,
+      height: NOTE_ICON_SIZE / 2,
+      color: rgb(r, g, b),
+    });
+  }
+  if (annotation.note.trim()) {
+    const anchor = geometry.point ?? {
+      x: Math.max(...[...geometry.rects.map((rect) => rect.x + rect.width), ...geometry.paths.flat().map((p) => p.x)]),
+      y: Math.max(...[...geometry.rects.map((rect) => rect.y + rect.height), ...geometry.paths.flat().map((p) => p.y)]),
+    };
+    drawNoteBox(page, font, { x: anchor.x + NOTE_ICON_SIZE / 2 + 2, y: anchor.y }, annotation.note.trim(), annotation.color);
+  }
+}
+
+export const annotatedFileName = (name: string) => `${name.replace(/\.pdf$/i, "")} (annotiert).pdf`;
+
+// Writes `annotations` into a copy of the PDF, entirely in the browser.
+// Throws for encrypted documents, which pdf-lib can't rewrite.
+export async function exportAnnotatedPdf(
+  source: ArrayBuffer,
+  annotations: Annotation[],
+  name: string,
+  { flatten = false }: AnnotatedExportOptions = {}
+): Promise<File> {
+  const doc = await PDFDocument.load(source);
+  const font = flatten ? await doc.embedFont(StandardFonts.Helvetica) : null;
+  const pages = doc.getPages();
+
+  for (const annotation of annotations) {
+    const page = pages[annotation.pageNum - 1];
+    if (!page) continue;
+    const box = page.getCropBox();
+    const rotation = page.getRotation().angle;
+    if (flatten && font) drawAnnotation(page, font, annotation, box, rotation);
+    else addAnnotationObjects(doc, page, annotation, box, rotation);
+  }
+
+  doc.setModificationDate(new Date());
+  const bytes = await doc.save();
+  return new File([bytes], annotatedFileName(name), { type: "application/pdf" });
+}
+
+// Hands a generated file to the browser as a download
+export function downloadFile(file: File) {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in Safari
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
@@ -0,0 +1,173 @@
+import {
+  PDFCheckBox,
+  PDFDocument,
+  PDFDropdown,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFTextField,
+  type PDFField,
+} from "pdf-lib";
+import type { AnnotationRect } from "@/types/pdf";
+
+export type FormFieldKind = "text" | "checkbox" | "radio" | "dropdown";
+
+export interface FormFieldOption {
+  value: string;
+  label: string;
+}
+
+// One widget of an AcroForm field. Fields that share a name (a radio group, a
+// name repeated on every page) share their value. Geometry is in page units at
+// scale 1, origin top left, like annotations.
+export interface FormField {
+  id: string;
+  name: string;
+  kind: FormFieldKind;
+  pageNum: number;
+  rect: AnnotationRect;
+  // Value as stored in the file; checkboxes and radios use their on-state
+  // name, or "Off"
+  value: string;
+  // The value this checkbox or radio button stands for when selected
+  onValue: string;
+  options: FormFieldOption[];
+  multiline: boolean;
+  readOnly: boolean;
+  maxLength: number | null;
+  // 0 means auto-size
+  fontSize: number;
+}
+
+// Edited values by field name
+export type FormValues = Record<string, string>;
+
+// "copy" adds a new library entry, "overwrite" replaces the original
+export type FormSaveMode = "copy" | "overwrite";
+
+export const FORM_OFF_VALUE = "Off";
+
+interface RawWidget {
+  id: string;
+  subtype: string;
+  rect: number[];
+  fieldName?: string;
+  fieldType?: string;
+  fieldValue?: string | string[] | null;
+  checkBox?: boolean;
+  radioButton?: boolean;
+  pushButton?: boolean;
+  exportValue?: string;
+  buttonValue?: string | null;
+  options?: Array<{ exportValue?: string; displayValue?: string }>;
+  multiLine?: boolean;
+  readOnly?: boolean;
+  hidden?: boolean;
+  maxLen?: number;
+  defaultAppearanceData?: { fontSize?: number };
+}
+
+interface FormViewport {
+  convertToViewportRectangle: (rect: number[]) => number[];
+}
+
+interface FormPage {
+  getViewport: (params: { scale: number }) => FormViewport;
+  getAnnotations: (params?: { intent?: string }) => Promise<RawWidget[]>;
+}
+
+function fieldKind(widget: RawWidget): FormFieldKind | null {
+  if (widget.fieldType === "Tx") return "text";
+  if (widget.fieldType === "Ch") return "dropdown";
+  if (widget.fieldType === "Btn") {
+    if (widget.checkBox) return "checkbox";
+    if (widget.radioButton) return "radio";
+  }
+  // Push buttons and signatures need scripts or certificates we don't handle
+  return null;
+}
+
+// The fillable widgets of one page, in file order
+export async function loadFormFields(page: FormPage, pageNum: number): Promise<FormField[]> {
+  const widgets = await page.getAnnotations({ intent: "display" }).catch(() => []);
+  const viewport = page.getViewport({ scale: 1 });
+
+  return widgets.flatMap((widget) => {
+    const kind = widget.subtype === "Widget" && widget.fieldName && !widget.hidden ? fieldKind(widget) : null;
+    if (!kind || !widget.fieldName) return [];
+
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(widget.rect);
+    const rawValue = Array.isArray(widget.fieldValue) ? widget.fieldValue[0] : widget.fieldValue;
+    const onValue = (kind === "radio" ? widget.buttonValue : widget.exportValue) ?? "";
+    return [
+      {
+        id: widget.id,
+        name: widget.fieldName,
+        kind,
+        pageNum,
+        rect: { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) },
+        value: rawValue ?? (kind === "checkbox" || kind === "radio" ? FORM_OFF_VALUE : ""),
+        onValue,
+        options: (widget.options ?? []).map((option) => ({
+          value: option.exportValue ?? option.displayValue ?? "",
+          label: option.displayValue ?? option.exportValue ?? "",
+        })),
+        multiline: widget.multiLine ?? false,
+        readOnly: widget.readOnly ?? false,
+        maxLength: widget.maxLen && widget.maxLen > 0 ? widget.maxLen : null,
+        fontSize: widget.defaultAppearanceData?.fontSize ?? 0,
+      },
+    ];
+  });
+}
+
+export const filledFileName = (name: string) => `${name.replace(/\.pdf$/i, "")} (ausgefüllt).pdf`;
+
+// pdf-lib lists radio options from /Opt when the group has one, which need
+// not match the on-state names pdf.js reports; fall back to widget order
+function selectRadio(group: PDFRadioGroup, value: string) {
+  const options = group.getOptions();
+  if (options.includes(value)) {
+    group.select(value);
+    return;
+  }
+  const index = group.acroField.getWidgets().findIndex((widget) => widget.getOnValue()?.decodeText() === value);
+  if (index !== -1 && options[index] !== undefined) group.select(options[index]);
+  else console.error("Unknown radio option:", group.getName(), value);
+}
+
+function applyValue(field: PDFField, value: string, widget: FormField | undefined) {
+  if (field instanceof PDFTextField) {
+    field.setText(value || undefined);
+  } else if (field instanceof PDFCheckBox) {
+    if (value === FORM_OFF_VALUE) field.uncheck();
+    else field.check();
+  } else if (field instanceof PDFRadioGroup) {
+    if (value === FORM_OFF_VALUE) field.clear();
+    else selectRadio(field, value);
+  } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    // pdf-lib selects by what it shows, i.e. the option's display text
+    const label = widget?.options.find((option) => option.value === value)?.label ?? value;
+    if (label) field.select(label);
+    else field.clear();
+  }
+}
+
+// Writes `values` into a copy of the PDF. Throws for encrypted documents and
+// for text the standard form font can't encode.
+export async function fillPdfForm(source: ArrayBuffer, values: FormValues, fields: FormField[], name: string) {
+  const doc = await PDFDocument.load(source);
+  const form = doc.getForm();
+
+  for (const [fieldName, value] of Object.entries(values)) {
+    const field = form.getFieldMaybe(fieldName);
+    if (!field) {
+      console.error("Form field not found:", fieldName);
+      continue;
+    }
+    applyValue(field, value, fields.find((candidate) => candidate.name === fieldName));
+  }
+
+  doc.setModificationDate(new Date());
+  const bytes = await doc.save();
+  return new File([bytes], name, { type: "application/pdf" });
+}
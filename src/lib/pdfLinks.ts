@@ -0,0 +1,69 @@
+// A link annotation positioned in percent of the page box, so the overlay
+// scales with the page wrapper and never has to be re-laid out on zoom.
+export interface PageLink {
+  id: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  url: string | null;
+  dest: string | unknown[] | null;
+  action: string | null;
+}
+
+interface LinkAnnotation {
+  id: string;
+  subtype: string;
+  rect: number[];
+  url?: string;
+  unsafeUrl?: string;
+  dest?: string | unknown[];
+  action?: string;
+}
+
+interface LinkViewport {
+  width: number;
+  height: number;
+  convertToViewportRectangle: (rect: number[]) => number[];
+}
+
+interface LinkPage {
+  getViewport: (params: { scale: number }) => LinkViewport;
+  getAnnotations: (params?: { intent?: string }) => Promise<LinkAnnotation[]>;
+}
+
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:", "tel:"];
+
+// pdf.js only fills `url` for links it considers safe; fall back to
+// `unsafeUrl` for the protocols we are happy to hand to the browser.
+function linkUrl(annotation: LinkAnnotation): string | null {
+  const candidate = annotation.url ?? annotation.unsafeUrl;
+  if (!candidate) return null;
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(candidate).protocol) ? candidate : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function loadPageLinks(page: LinkPage): Promise<PageLink[]> {
+  const annotations = await page.getAnnotations({ intent: "display" }).catch(() => []);
+  const viewport = page.getViewport({ scale: 1 });
+
+  return annotations
+    .filter((annotation) => annotation.subtype === "Link")
+    .map((annotation) => {
+      const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(annotation.rect);
+      return {
+        id: annotation.id,
+        left: (Math.min(x1, x2) / viewport.width) * 100,
+        top: (Math.min(y1, y2) / viewport.height) * 100,
+        width: (Math.abs(x2 - x1) / viewport.width) * 100,
+        height: (Math.abs(y2 - y1) / viewport.height) * 100,
+        url: linkUrl(annotation),
+        dest: annotation.dest ?? null,
+        action: annotation.action ?? null,
+      };
+    })
+    .filter((link) => link.url || link.dest || link.action);
+}
@@ -0,0 +1,88 @@
+import { PDFDocument } from "pdf-lib";
+
+export type PdfLoadErrorKind = "library" | "network" | "corrupt" | "password" | "unsupported" | "tooLarge";
+
+// Above this, opening needs a confirmation: pdf.js keeps the whole file in
+// memory and large scans can take the tab down on phones
+export const MAX_PDF_SIZE = 200 * 1024 * 1024;
+
+export const PDF_LOAD_ERRORS: Record<PdfLoadErrorKind, { title: string; hint: string }> = {
+  library: {
+    title: "PDF-Bibliothek konnte nicht geladen werden.",
+    hint: "Lade die Seite neu und versuche es erneut.",
+  },
+  network: {
+    title: "Das Dokument konnte nicht heruntergeladen werden.",
+    hint: "Die Verbindung zum Speicher ist fehlgeschlagen. Prüfe deine Internetverbindung.",
+  },
+  corrupt: {
+    title: "Die Datei ist beschädigt oder keine gültige PDF.",
+    hint: "Eine Reparatur hilft oft, wenn nur Teile der Datei fehlerhaft sind.",
+  },
+  password: {
+    title: "Dieses Dokument ist passwortgeschützt.",
+    hint: "Ohne Passwort kann es nicht angezeigt werden.",
+  },
+  unsupported: {
+    title: "Dieses Dokument nutzt Funktionen, die nicht unterstützt werden.",
+    hint: "Lade das Original herunter und öffne es in einem anderen Programm.",
+  },
+  tooLarge: {
+    title: "Die Datei ist sehr groß.",
+    hint: `Dokumente über ${MAX_PDF_SIZE / 1024 / 1024} MB können den Browser überlasten.`,
+  },
+};
+
+// Maps what pdf.js (or fetch) threw to a kind. pdf.js errors cross the worker
+// boundary as plain objects, so only `name` and `message` are reliable.
+export function classifyPdfError(err: unknown): PdfLoadErrorKind {
+  const { name = "", message = "" } = (err ?? {}) as { name?: string; message?: string };
+  switch (name) {
+    case "PasswordException":
+      return "password";
+    case "InvalidPDFException":
+    case "FormatError":
+      return "corrupt";
+    case "MissingPDFException":
+    case "UnexpectedResponseException":
+      return "network";
+  }
+  if (/worker/i.test(message)) return "library";
+  if (/failed to fetch|network|load failed/i.test(message)) return "network";
+  if (/invalid|xref|trailer|startxref|bad|corrupt/i.test(message)) return "corrupt";
+  return "unsupported";
+}
+
+const indexOfBytes = (bytes: Uint8Array, pattern: string, fromEnd = false) => {
+  const codes = Array.from(pattern, (char) => char.charCodeAt(0));
+  const matchesAt = (start: number) => codes.every((code, idx) => bytes[start + idx] === code);
+  if (fromEnd) {
+    for (let start = bytes.length - codes.length; start >= 0; start--) if (matchesAt(start)) return start;
+  } else {
+    for (let start = 0; start + codes.length <= bytes.length; start++) if (matchesAt(start)) return start;
+  }
+  return -1;
+};
+
+export const repairedFileName = (name: string) => `${name.replace(/\.pdf$/i, "")} (repariert).pdf`;
+
+// Best effort for damaged files: cut junk before the header and after the
+// last %%EOF (mail gateways and broken downloads add both), then let pdf-lib
+// re-read the objects and write a fresh cross-reference table. Null when
+// nothing usable comes out.
+export async function repairPdf(source: ArrayBuffer, name: string): Promise<File | null> {
+  let bytes = new Uint8Array(source);
+  const header = indexOfBytes(bytes, "%PDF-");
+  if (header === -1) return null;
+  const end = indexOfBytes(bytes, "%%EOF", true);
+  bytes = bytes.slice(header, end > header ? end + 5 : bytes.length);
+
+  try {
+    const doc = await PDFDocument.load(bytes, { throwOnInvalidObject: false, updateMetadata: false });
+    if (doc.getPageCount() === 0) return null;
+    return new File([await doc.save()], repairedFileName(name), { type: "application/pdf" });
+  } catch (err) {
+    console.error("PDF repair error:", err);
+    return null;
+  }
+}
@@ -0,0 +1,64 @@
+import { resolveDestination, type ResolvedDestination } from "@/lib/pdfDestination";
+
+export interface OutlineNode {
+  id: string;
+  title: string;
+  destination: ResolvedDestination | null;
+  url: string | null;
+  children: OutlineNode[];
+}
+
+interface RawOutlineItem {
+  title: string;
+  dest: string | unknown[] | null;
+  url: string | null;
+  items: RawOutlineItem[];
+}
+
+interface OutlineDocument {
+  numPages: number;
+  getOutline: () => Promise<RawOutlineItem[] | null>;
+  getDestination: (id: string) => Promise<unknown[] | null>;
+  getPageIndex: (ref: unknown) => Promise<number>;
+}
+
+async function resolveItems(pdf: OutlineDocument, items: RawOutlineItem[], parentId: string): Promise<OutlineNode[]> {
+  return Promise.all(
+    items.map(async (item, index) => {
+      const id = parentId ? `${parentId}.${index}` : `${index}`;
+      const [destination, children] = await Promise.all([
+        resolveDestination(pdf, item.dest),
+        resolveItems(pdf, item.items ?? [], id),
+      ]);
+      return { id, title: item.title.trim() || "Ohne Titel", destination, url: item.url ?? null, children };
+    })
+  );
+}
+
+// Loads the document bookmarks with every destination resolved up front, so
+// the sidebar can both jump to entries and tell which one is being read.
+export async function loadOutline(pdf: OutlineDocument): Promise<OutlineNode[]> {
+  const outline = await pdf.getOutline().catch(() => null);
+  if (!outline?.length) return [];
+  return resolveItems(pdf, outline, "");
+}
+
+// The section being read is the last entry, in document order, that starts
+// on or before the current page. Returns its id and the ids of its ancestors.
+export function findActiveOutlinePath(nodes: OutlineNode[], currentPage: number): string[] {
+  let best: { path: string[]; pageNum: number } | null = null;
+
+  const walk = (list: OutlineNode[], ancestors: string[]) => {
+    for (const node of list) {
+      const path = [...ancestors, node.id];
+      const pageNum = node.destination?.pageNum;
+      if (pageNum !== undefined && pageNum <= currentPage && (!best || pageNum >= best.pageNum)) {
+        best = { path, pageNum };
+      }
+      walk(node.children, path);
+    }
+  };
+
+  walk(nodes, []);
+  return best?.path ?? [];
+}
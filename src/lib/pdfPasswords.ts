@@ -0,0 +1,25 @@
+// Passwords of encrypted documents the reader chose to remember. Kept in
+// memory only: they last until the tab is closed or reloaded and are never
+// written to storage.
+const remembered = new Map<string, string>();
+
+// pdf.js's PasswordResponses
+export const PASSWORD_NEEDED = 1;
+export const PASSWORD_INCORRECT = 2;
+
+// Library documents are keyed by id; files not in the library yet by what the
+// browser knows about them
+export const passwordKey = (documentId: string | null, file: File) =>
+  documentId && !documentId.startsWith("temp-")
+    ? documentId
+    : `${file.name}:${file.size}:${file.lastModified}`;
+
+export const getRememberedPassword = (key: string) => remembered.get(key) ?? null;
+
+export function rememberPassword(key: string, password: string) {
+  remembered.set(key, password);
+}
+
+export function forgetPassword(key: string) {
+  remembered.delete(key);
+}
@@ -0,0 +1,139 @@
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  ignoreDiacritics: boolean;
+}
+
+// Text of one page as pdf.js reports it: the item strings concatenated, with
+// a line break after items flagged `hasEOL`. `itemOffsets[i]` is where item i
+// starts in `text`, which lets hits be mapped back onto text layer spans.
+export interface PageText {
+  text: string;
+  items: string[];
+  itemOffsets: number[];
+}
+
+export interface SearchMatch {
+  pageNum: number;
+  start: number;
+  end: number;
+}
+
+export interface ItemRange {
+  item: number;
+  from: number;
+  to: number;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  ignoreDiacritics: true,
+};
+
+// German transliterations, so "Aerger" finds "Ärger" and vice versa
+const GERMAN_FOLDS: Record<string, string> = {
+  ä: "ae",
+  ö: "oe",
+  ü: "ue",
+  Ä: "Ae",
+  Ö: "Oe",
+  Ü: "Ue",
+  ß: "ss",
+  ẞ: "SS",
+};
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+export function buildPageText(items: Array<{ str?: string; hasEOL?: boolean }>): PageText {
+  const strings: string[] = [];
+  const itemOffsets: number[] = [];
+  let text = "";
+
+  for (const item of items) {
+    if (typeof item.str !== "string") continue;
+    itemOffsets.push(text.length);
+    strings.push(item.str);
+    text += item.str;
+    if (item.hasEOL) text += "\n";
+  }
+
+  return { text, items: strings, itemOffsets };
+}
+
+function foldChar(ch: string, options: SearchOptions): string {
+  let folded = ch;
+  if (options.ignoreDiacritics) {
+    folded = GERMAN_FOLDS[ch] ?? ch.normalize("NFKD").replace(/\p{M}/gu, "");
+  }
+  if (!options.caseSensitive) folded = folded.toLocaleLowerCase("de");
+  return folded;
+}
+
+// Folds `text` for comparison and records, for every folded character, the
+// index of the original character it came from. Whitespace runs collapse to
+// a single space so line breaks inside a phrase don't prevent a match.
+function normalize(text: string, options: SearchOptions): { value: string; map: number[] } {
+  let value = "";
+  const map: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      if (value.endsWith(" ")) continue;
+      value += " ";
+      map.push(i);
+      continue;
+    }
+    const folded = foldChar(ch, options);
+    for (const out of folded) {
+      value += out;
+      map.push(i);
+    }
+  }
+
+  return { value, map };
+}
+
+export function findMatches(text: string, query: string, options: SearchOptions): Array<[number, number]> {
+  const needle = normalize(query.trim(), options).value;
+  if (!needle) return [];
+
+  const { value, map } = normalize(text, options);
+  const matches: Array<[number, number]> = [];
+
+  let from = 0;
+  while (from <= value.length - needle.length) {
+    const idx = value.indexOf(needle, from);
+    if (idx === -1) break;
+
+    const start = map[idx];
+    const end = map[idx + needle.length - 1] + 1;
+    const isWholeWord =
+      !options.wholeWord ||
+      (!WORD_CHAR.test(text[start - 1] ?? "") && !WORD_CHAR.test(text[end] ?? ""));
+
+    if (isWholeWord) {
+      matches.push([start, end]);
+      from = idx + needle.length;
+    } else {
+      from = idx + 1;
+    }
+  }
+
+  return matches;
+}
+
+// Splits a [start, end) range of the page text into per-item ranges
+export function toItemRanges(pageText: PageText, start: number, end: number): ItemRange[] {
+  const ranges: ItemRange[] = [];
+
+  pageText.items.forEach((str, item) => {
+    const itemStart = pageText.itemOffsets[item];
+    const from = Math.max(start, itemStart);
+    const to = Math.min(end, itemStart + str.length);
+    if (from < to) ranges.push({ item, from: from - itemStart, to: to - itemStart });
+  });
+
+  return ranges;
+}
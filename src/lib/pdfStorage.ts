@@ -1,4 +1,6 @@
 import { supabase } from "@/integrations/supabase/client";
+import { parseReadingPosition } from "@/lib/readingPosition";
+import type { ReadingPosition } from "@/types/pdf";
 
 export interface StoredPdf {
   id: string;
@@ -7,11 +9,29 @@ export interface StoredPdf {
   storage_path: string;
   thumbnail: string | null;
   created_at: string;
+  last_page?: number | null;
+  last_page_offset?: number | null;
+  zoom_mode?: string | null;
+  zoom_scale?: number | null;
+  page_layout?: string | null;
+  last_opened_at?: string | null;
+  page_count?: number | null;
+  reached_end?: boolean | null;
 }
 
 const BUCKET = "pdfs";
+// The bucket's file_size_limit; larger uploads are rejected by storage
+export const MAX_UPLOAD_SIZE = 50 * 1024 * 1024;
+
+// Uploads a new library entry, or with `replace` writes `file` over an
+// existing entry's storage object and keeps its id and reading position
+export async function uploadPdf(
+  file: File,
+  thumbnail: string | null,
+  replace?: { id: string; storagePath: string }
+): Promise<StoredPdf | null> {
+  if (replace) return replacePdf(replace.id, replace.storagePath, file, thumbnail);
 
-export async function uploadPdf(file: File, thumbnail: string | null): Promise<StoredPdf | null> {
   const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
   const path = `${id}/${file.name}`;
 
@@ -40,6 +60,35 @@ export async function uploadPdf(file: File, thumbnail: string | null): Promise<S
   return { id, name: file.name, size: file.size, storage_path: path, thumbnail, created_at: new Date().toISOString() };
 }
 
+async function replacePdf(
+  id: string,
+  storagePath: string,
+  file: File,
+  thumbnail: string | null
+): Promise<StoredPdf | null> {
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(storagePath, file, { contentType: "application/pdf", upsert: true });
+
+  if (uploadError) {
+    console.error("Upload error:", uploadError);
+    return null;
+  }
+
+  const { data, error: dbError } = await supabase
+    .from("pdf_library")
+    .update({ size: file.size, ...(thumbnail ? { thumbnail } : {}) })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (dbError || !data) {
+    console.error("DB update error:", dbError);
+    return null;
+  }
+  return data;
+}
+
 export async function loadAllPdfs(): Promise<StoredPdf[]> {
   const { data, error } = await supabase
     .from("pdf_library")
@@ -62,6 +111,37 @@ export async function updateThumbnail(id: string, thumbnail: string): Promise<vo
   await supabase.from("pdf_library").update({ thumbnail }).eq("id", id);
 }
 
+export async function saveReadingPosition(id: string, position: ReadingPosition): Promise<void> {
+  const { error } = await supabase
+    .from("pdf_library")
+    .update({
+      last_page: position.pageNum,
+      last_page_offset: position.offset,
+      zoom_mode: position.zoomMode,
+      zoom_scale: position.zoomScale,
+      page_layout: position.layout,
+      last_opened_at: position.updatedAt,
+      page_count: position.pageCount || null,
+      reached_end: position.reachedEnd,
+    })
+    .eq("id", id);
+
+  if (error) console.error("Reading position save error:", error);
+}
+
+export function readingPositionFromStored(stored: StoredPdf): ReadingPosition | null {
+  return parseReadingPosition({
+    pageNum: stored.last_page,
+    offset: stored.last_page_offset,
+    zoomMode: stored.zoom_mode,
+    zoomScale: stored.zoom_scale,
+    layout: stored.page_layout,
+    pageCount: stored.page_count,
+    reachedEnd: stored.reached_end,
+    updatedAt: stored.last_opened_at,
+  });
+}
+
 export async function downloadPdfAsFile(storagePath: string, name: string): Promise<File | null> {
   const { data, error } = await supabase.storage.from(BUCKET).download(storagePath);
   if (error || !data) {
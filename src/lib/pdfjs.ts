@@ -0,0 +1,33 @@
+// The one place pdf.js is imported. The legacy build carries its own
+// polyfills, so older iOS Safari keeps working like it did with the CDN v3
+// build. Library and worker both ship in the app bundle and are precached,
+// which makes opening documents work offline from the first visit.
+import {
+  AnnotationMode,
+  GlobalWorkerOptions,
+  TextLayer,
+  getDocument,
+  type PDFDocumentLoadingTask,
+  type PDFDocumentProxy,
+  type PDFPageProxy,
+  type PageViewport,
+  type RenderTask,
+} from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import workerUrl from "pdfjs-dist/legacy/build/pdf.worker.min.mjs?url";
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+export type PdfDocument = PDFDocumentProxy;
+export type PdfPage = PDFPageProxy;
+export type PdfViewport = PageViewport;
+export type PdfRenderTask = RenderTask;
+export type PdfLoadingTask = PDFDocumentLoadingTask;
+export type PdfTextItem = TextItem;
+
+export { AnnotationMode, TextLayer };
+
+// Starts loading the document behind `url`. Set `onPassword` on the returned
+// task to be asked for a password when the one given is missing or wrong.
+export const openPdf = (url: string, password?: string | null): PdfLoadingTask =>
+  getDocument({ url, password: password ?? undefined });
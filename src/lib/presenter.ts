@@ -0,0 +1,79 @@
+// Presentation mode and the presenter window talk over a BroadcastChannel
+// named after a per-presentation session id, so two tabs presenting at the
+// same time don't steer each other.
+export const presenterChannelName = (session: string) => `pdf-presenter:${session}`;
+
+export const presenterUrl = (session: string) => `/presenter?session=${encodeURIComponent(session)}`;
+
+export type PresenterMessage =
+  // Presenter window -> viewer: opened (or reloaded), send the current state
+  | { type: "ready" }
+  // Viewer -> presenter window; previews are JPEG data URLs, null while
+  // rendering or past the last page
+  | {
+      type: "state";
+      title: string;
+      pageNum: number;
+      numPages: number;
+      current: string | null;
+      next: string | null;
+      startedAt: number;
+    }
+  // Presenter window -> viewer
+  | { type: "goto"; pageNum: number }
+  // Viewer -> presenter window: the presentation was closed
+  | { type: "end" };
+
+export function isPresenterMessage(data: unknown): data is PresenterMessage {
+  if (!data || typeof data !== "object") return false;
+  const { type } = data as { type?: unknown };
+  return type === "ready" || type === "state" || type === "goto" || type === "end";
+}
+
+export type PresentationAction = "next" | "previous" | "first" | "last" | "laser" | "blank" | "exit";
+
+// Presentation clickers send PageDown/PageUp (some also "b" or "." for a
+// blank screen), so those work alongside the usual keys
+const PRESENTATION_KEYS: Record<string, PresentationAction> = {
+  ArrowRight: "next",
+  ArrowDown: "next",
+  PageDown: "next",
+  " ": "next",
+  Enter: "next",
+  n: "next",
+  ArrowLeft: "previous",
+  ArrowUp: "previous",
+  PageUp: "previous",
+  Backspace: "previous",
+  p: "previous",
+  Home: "first",
+  End: "last",
+  l: "laser",
+  b: "blank",
+  ".": "blank",
+  Escape: "exit",
+};
+
+interface KeyLike {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+}
+
+export function presentationAction(event: KeyLike): PresentationAction | null {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+  if (event.key === " " && event.shiftKey) return "previous";
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  return PRESENTATION_KEYS[key] ?? null;
+}
+
+// "4:05" or, from an hour on, "1:04:05"
+export function formatElapsed(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
@@ -0,0 +1,126 @@
+import type { PageRotations } from "@/lib/pageRotation";
+import type { PdfDocument } from "@/lib/pdfjs";
+
+export type PrintSelection = "all" | "current" | "range";
+
+// Print resolution; pdf.js' own viewer prints at 150 DPI as well, sharp on
+// paper without running out of memory on long documents
+export const PRINT_DPI = 150;
+const PDF_DPI = 72;
+
+// Page numbers in "1-5, 9" (also "7-" for 7 to the end), in the order given
+// without repeats. null when anything doesn't parse or is out of range.
+export function parsePageRange(input: string, numPages: number): number[] | null {
+  const parts = input.split(/[,;]/).map((part) => part.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const pages: number[] = [];
+  for (const part of parts) {
+    const match = /^(\d+)\s*(?:[-–]\s*(\d*))?$/.exec(part);
+    if (!match) return null;
+    const start = Number(match[1]);
+    const end = match[2] === undefined ? start : match[2] === "" ? numPages : Number(match[2]);
+    if (start < 1 || end > numPages || start > end) return null;
+    for (let pageNum = start; pageNum <= end; pageNum++) pages.push(pageNum);
+  }
+  return Array.from(new Set(pages));
+}
+
+export interface PrintPage {
+  url: string;
+  // Paper size in PDF points
+  width: number;
+  height: number;
+}
+
+interface RenderPrintOptions {
+  rotations?: PageRotations;
+  onProgress?: (done: number, total: number) => void;
+  isCancelled?: () => boolean;
+}
+
+// Renders `pageNums` to PNG object URLs at print resolution, one page at a
+// time so only one full-size canvas exists at once. Returns null when
+// cancelled; the caller revokes the URLs once printing is done.
+export async function renderPrintPages(
+  pdf: PdfDocument,
+  pageNums: number[],
+  { rotations, onProgress, isCancelled }: RenderPrintOptions = {}
+): Promise<PrintPage[] | null> {
+  const pages: PrintPage[] = [];
+  const canvas = document.createElement("canvas");
+  try {
+    for (const pageNum of pageNums) {
+      if (isCancelled?.()) break;
+      const page = await pdf.getPage(pageNum);
+      const rotation = (page.rotate + (rotations?.get(pageNum) ?? 0)) % 360;
+      const paper = page.getViewport({ scale: 1, rotation });
+      const viewport = page.getViewport({ scale: PRINT_DPI / PDF_DPI, rotation });
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Canvas 2D context unavailable");
+      await page.render({ canvasContext: ctx, viewport, intent: "print" }).promise;
+      page.cleanup();
+
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+      if (!blob) throw new Error(`Page ${pageNum} could not be encoded`);
+      pages.push({ url: URL.createObjectURL(blob), width: paper.width, height: paper.height });
+      onProgress?.(pages.length, pageNums.length);
+    }
+  } catch (err) {
+    pages.forEach((page) => URL.revokeObjectURL(page.url));
+    throw err;
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+
+  if (isCancelled?.()) {
+    pages.forEach((page) => URL.revokeObjectURL(page.url));
+    return null;
+  }
+  return pages;
+}
+
+const PRINT_CONTAINER_ID = "pdf-print-container";
+
+// Puts the rendered pages into a container that is the only thing shown in
+// print (see index.css), opens the browser's print dialog and cleans up
+// afterwards. The paper size follows the first page.
+export async function printPages(pages: PrintPage[]): Promise<void> {
+  document.getElementById(PRINT_CONTAINER_ID)?.remove();
+
+  const container = document.createElement("div");
+  container.id = PRINT_CONTAINER_ID;
+  const style = document.createElement("style");
+  style.textContent = `@page { size: ${pages[0].width}pt ${pages[0].height}pt; margin: 0; }`;
+  container.appendChild(style);
+
+  const images = pages.map((page) => {
+    const wrapper = document.createElement("div");
+    const img = document.createElement("img");
+    img.src = page.url;
+    img.alt = "";
+    wrapper.appendChild(img);
+    container.appendChild(wrapper);
+    return img;
+  });
+  document.body.appendChild(container);
+
+  const cleanup = () => {
+    container.remove();
+    pages.forEach((page) => URL.revokeObjectURL(page.url));
+  };
+
+  try {
+    // Printing before the images are decoded would give blank pages
+    await Promise.all(images.map((img) => img.decode().catch(() => {})));
+    window.addEventListener("afterprint", cleanup, { once: true });
+    window.print();
+  } catch (err) {
+    window.removeEventListener("afterprint", cleanup);
+    cleanup();
+    throw err;
+  }
+}
@@ -0,0 +1,56 @@
+// How page content is coloured. Themes recolour the rendered canvas with CSS
+// filters, so they cost nothing extra to render and apply to every page at once.
+export type ReaderTheme = "original" | "dark" | "sepia" | "contrast";
+
+export const READER_THEMES: ReaderTheme[] = ["original", "dark", "sepia", "contrast"];
+
+export const READER_THEME_LABELS: Record<ReaderTheme, string> = {
+  original: "Original",
+  dark: "Dunkel",
+  sepia: "Sepia",
+  contrast: "Hoher Kontrast",
+};
+
+interface ReaderThemeStyle {
+  // CSS filter for the page canvas
+  filter?: string;
+  // Colour multiplied over the page, so white paper takes it on and black
+  // text stays black
+  tint?: string;
+  // Page colour while the canvas is still being drawn
+  background: string;
+  // Own highlights are multiplied onto light pages; on dark ones that would
+  // swallow them, so they are screened instead
+  markBlend: "multiply" | "screen";
+}
+
+// The dark theme inverts the whole canvas, photos included. The hue turn after
+// the inversion brings colours back to roughly their hues, but photos still
+// show with inverted lightness. pdf.js' pageColors is no way around that: it
+// maps the finished canvas to two colours, images too. Stopping short of full
+// inversion avoids pure white text.
+export const READER_THEME_STYLES: Record<ReaderTheme, ReaderThemeStyle> = {
+  original: { background: "#ffffff", markBlend: "multiply" },
+  dark: { filter: "invert(0.88) hue-rotate(180deg)", background: "#1f1f1f", markBlend: "screen" },
+  sepia: { filter: "sepia(0.15)", tint: "#f4ecd8", background: "#f4ecd8", markBlend: "multiply" },
+  contrast: { filter: "grayscale(0.2) contrast(1.6)", background: "#ffffff", markBlend: "multiply" },
+};
+
+const STORAGE_KEY = "pdfReaderTheme";
+
+export function readReaderTheme(): ReaderTheme {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return READER_THEMES.includes(stored as ReaderTheme) ? (stored as ReaderTheme) : "original";
+  } catch {
+    return "original";
+  }
+}
+
+export function writeReaderTheme(theme: ReaderTheme) {
+  try {
+    localStorage.setItem(STORAGE_KEY, theme);
+  } catch {
+    // Storage disabled; the theme just isn't remembered
+  }
+}
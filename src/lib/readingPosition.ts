@@ -0,0 +1,94 @@
+import type { ReadingPosition } from "@/types/pdf";
+import { PAGE_LAYOUTS, type PageLayout } from "@/lib/pageLayout";
+import { clampScale, type ZoomMode } from "@/lib/zoom";
+
+const STORAGE_KEY_PREFIX = "pdfReadingPosition:";
+const ZOOM_MODES: ZoomMode[] = ["fitWidth", "fitPage", "actualSize", "custom"];
+
+interface RawPosition {
+  pageNum?: unknown;
+  offset?: unknown;
+  zoomMode?: unknown;
+  zoomScale?: unknown;
+  layout?: unknown;
+  pageCount?: unknown;
+  reachedEnd?: unknown;
+  updatedAt?: unknown;
+}
+
+// Validates a position from storage or the database; anything malformed is
+// dropped rather than sending the viewer to a page that doesn't exist
+export function parseReadingPosition(raw: RawPosition | null | undefined): ReadingPosition | null {
+  if (!raw) return null;
+  const { pageNum, offset, zoomMode, zoomScale, layout, pageCount, reachedEnd, updatedAt } = raw;
+  if (typeof pageNum !== "number" || !Number.isInteger(pageNum) || pageNum < 1) return null;
+  if (typeof updatedAt !== "string" || Number.isNaN(Date.parse(updatedAt))) return null;
+
+  return {
+    pageNum,
+    offset: typeof offset === "number" ? Math.max(0, Math.min(1, offset)) : 0,
+    zoomMode: ZOOM_MODES.includes(zoomMode as ZoomMode) ? (zoomMode as ZoomMode) : "fitWidth",
+    zoomScale: typeof zoomScale === "number" ? clampScale(zoomScale) : 1,
+    layout: PAGE_LAYOUTS.includes(layout as PageLayout) ? (layout as PageLayout) : "vertical",
+    pageCount: typeof pageCount === "number" && pageCount >= pageNum ? pageCount : 0,
+    reachedEnd: reachedEnd === true,
+    updatedAt,
+  };
+}
+
+export function readLocalReadingPosition(id: string): ReadingPosition | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY_PREFIX + id);
+    return raw ? parseReadingPosition(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeLocalReadingPosition(id: string, position: ReadingPosition) {
+  try {
+    localStorage.setItem(STORAGE_KEY_PREFIX + id, JSON.stringify(position));
+  } catch {
+    // Storage full or disabled; the database copy still applies
+  }
+}
+
+export function removeLocalReadingPosition(id: string) {
+  try {
+    localStorage.removeItem(STORAGE_KEY_PREFIX + id);
+  } catch {
+    // Nothing to clean up
+  }
+}
+
+// The more recently saved of the local and the synced position, so reading on
+// another device wins over a stale local copy and vice versa
+export function latestReadingPosition(
+  a: ReadingPosition | null,
+  b: ReadingPosition | null
+): ReadingPosition | null {
+  if (!a || !b) return a ?? b;
+  return Date.parse(b.updatedAt) > Date.parse(a.updatedAt) ? b : a;
+}
+
+export interface ReadingProgress {
+  fraction: number;
+  isFinished: boolean;
+}
+
+// How far into the document the saved position is, judged by the page at the
+// top of the viewport. Finished once the end of the last page was in view, as
+// the last page may be too short to ever reach the top.
+export function readingProgress(position: ReadingPosition | null): ReadingProgress | null {
+  if (!position || position.pageCount === 0) return null;
+  if (position.reachedEnd) return { fraction: 1, isFinished: true };
+  return { fraction: (position.pageNum - 1 + position.offset) / position.pageCount, isFinished: false };
+}
+
+// Documents with a saved position that aren't finished yet, most recent first
+export function recentlyOpened<T extends { readingPosition: ReadingPosition | null }>(entries: T[], limit: number): T[] {
+  return entries
+    .filter((entry) => entry.readingPosition && !readingProgress(entry.readingPosition)?.isFinished)
+    .sort((a, b) => Date.parse(b.readingPosition!.updatedAt) - Date.parse(a.readingPosition!.updatedAt))
+    .slice(0, limit);
+}
@@ -0,0 +1,130 @@
+export type RenderJob = () => Promise<void>;
+
+export interface RenderQueue {
+  /** Adds or re-prioritises a job. Lower priority values run first. */
+  enqueue: (key: number, priority: number, job: RenderJob) => void;
+  /** Drops a pending job; a job that is already running is left to its own cancellation. */
+  cancel: (key: number) => void;
+  clear: () => void;
+  size: () => number;
+  /** Resolves once nothing is pending or running. */
+  whenIdle: () => Promise<void>;
+}
+
+interface RenderQueueOptions {
+  concurrency?: number;
+  maxPending?: number;
+  /** Called when the queue runs empty after it had to drop jobs, so the owner can enqueue what is still missing. */
+  onDrained?: () => void;
+}
+
+interface PendingJob {
+  priority: number;
+  job: RenderJob;
+}
+
+// Bounded priority queue for page renders. When more than `maxPending` jobs
+// are waiting, the least important one (highest priority value) is dropped;
+// `onDrained` gives the owner a chance to enqueue it again once there is room.
+export function createRenderQueue({
+  concurrency = 1,
+  maxPending = 12,
+  onDrained,
+}: RenderQueueOptions = {}): RenderQueue {
+  const pending = new Map<number, PendingJob>();
+  let running = 0;
+  let scheduled = false;
+  let hasDropped = false;
+  let idleWaiters: Array<() => void> = [];
+
+  const notifyIdle = () => {
+    if (running > 0 || pending.size > 0 || idleWaiters.length === 0) return;
+    const waiters = idleWaiters;
+    idleWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  };
+
+  const takeNext = (): [number, PendingJob] | null => {
+    let best: [number, PendingJob] | null = null;
+    for (const entry of pending) {
+      if (!best || entry[1].priority < best[1].priority) best = entry;
+    }
+    if (best) pending.delete(best[0]);
+    return best;
+  };
+
+  const pump = () => {
+    while (running < concurrency) {
+      const next = takeNext();
+      if (!next) {
+        if (hasDropped) {
+          hasDropped = false;
+          onDrained?.();
+          if (pending.size > 0) continue;
+        }
+        notifyIdle();
+        return;
+      }
+
+      running++;
+      next[1]
+        .job()
+        .catch((err) => console.error("Render job failed:", err))
+        .finally(() => {
+          running--;
+          pump();
+        });
+    }
+  };
+
+  // Defer pumping so a burst of enqueues is ordered by priority, not arrival.
+  const schedulePump = () => {
+    if (scheduled) return;
+    scheduled = true;
+    queueMicrotask(() => {
+      scheduled = false;
+      pump();
+    });
+  };
+
+  const trim = () => {
+    while (pending.size > maxPending) {
+      let worstKey: number | null = null;
+      let worstPriority = Number.NEGATIVE_INFINITY;
+      for (const [key, entry] of pending) {
+        if (entry.priority > worstPriority) {
+          worstPriority = entry.priority;
+          worstKey = key;
+        }
+      }
+      if (worstKey === null) return;
+      pending.delete(worstKey);
+      hasDropped = true;
+    }
+  };
+
+  return {
+    enqueue(key, priority, job) {
+      pending.set(key, { priority, job });
+      trim();
+      schedulePump();
+    },
+    cancel(key) {
+      pending.delete(key);
+      notifyIdle();
+    },
+    clear() {
+      pending.clear();
+      notifyIdle();
+    },
+    size() {
+      return pending.size + running;
+    },
+    whenIdle() {
+      return new Promise<void>((resolve) => {
+        idleWaiters.push(resolve);
+        notifyIdle();
+      });
+    },
+  };
+}
@@ -0,0 +1,134 @@
+export type ShortcutAction =
+  | "nextPage"
+  | "previousPage"
+  | "firstPage"
+  | "lastPage"
+  | "scrollDown"
+  | "scrollUp"
+  | "zoomIn"
+  | "zoomOut"
+  | "actualSize"
+  | "fitWidth"
+  | "fitPage"
+  | "search"
+  | "toggleOutline"
+  | "toggleThumbnails"
+  | "toggleAnnotations"
+  | "toggleComments"
+  | "annotate"
+  | "rotatePage"
+  | "present"
+  | "print"
+  | "linkBack"
+  | "help"
+  | "close";
+
+export interface ShortcutBinding {
+  action: ShortcutAction;
+  // Key combos as "Mod+Shift+Key"; `Mod` is Ctrl, or Cmd on macOS. `Key` is
+  // compared with `KeyboardEvent.key`, with "Plus" and "Space" spelled out.
+  keys: string[];
+  description: string;
+  group: "Navigation" | "Zoom" | "Ansicht" | "Allgemein";
+  // Lets the binding's Mod combos fire while an input has focus, so e.g.
+  // Ctrl+F still works from the page field; plain keys never do
+  allowInInputs?: boolean;
+}
+
+export const VIEWER_SHORTCUTS: ShortcutBinding[] = [
+  { action: "nextPage", keys: ["ArrowRight", "PageDown", "Space"], description: "Nächste Seite", group: "Navigation" },
+  {
+    action: "previousPage",
+    keys: ["ArrowLeft", "PageUp", "Shift+Space"],
+    description: "Vorherige Seite",
+    group: "Navigation",
+  },
+  { action: "firstPage", keys: ["Home"], description: "Erste Seite", group: "Navigation" },
+  { action: "lastPage", keys: ["End"], description: "Letzte Seite", group: "Navigation" },
+  { action: "scrollDown", keys: ["ArrowDown"], description: "Nach unten scrollen", group: "Navigation" },
+  { action: "scrollUp", keys: ["ArrowUp"], description: "Nach oben scrollen", group: "Navigation" },
+  {
+    action: "linkBack",
+    keys: ["Alt+ArrowLeft"],
+    description: "Zurück zur Absprungstelle eines Links",
+    group: "Navigation",
+  },
+  { action: "zoomIn", keys: ["Plus", "=", "Mod+Plus", "Mod+="], description: "Vergrößern", group: "Zoom", allowInInputs: true },
+  { action: "zoomOut", keys: ["-", "Mod+-"], description: "Verkleinern", group: "Zoom", allowInInputs: true },
+  { action: "actualSize", keys: ["0", "Mod+0"], description: "Originalgröße (100 %)", group: "Zoom", allowInInputs: true },
+  { action: "fitWidth", keys: ["w"], description: "An Breite anpassen", group: "Zoom" },
+  { action: "fitPage", keys: ["p"], description: "Ganze Seite anzeigen", group: "Zoom" },
+  { action: "search", keys: ["Mod+f", "/"], description: "Im Dokument suchen", group: "Ansicht", allowInInputs: true },
+  { action: "toggleOutline", keys: ["o"], description: "Inhaltsverzeichnis ein/aus", group: "Ansicht" },
+  { action: "toggleThumbnails", keys: ["t"], description: "Seitenübersicht ein/aus", group: "Ansicht" },
+  { action: "toggleAnnotations", keys: ["a"], description: "Anmerkungsliste ein/aus", group: "Ansicht" },
+  { action: "toggleComments", keys: ["k"], description: "Kommentare des Dokuments ein/aus", group: "Ansicht" },
+  { action: "annotate", keys: ["h"], description: "Anmerkungswerkzeuge ein/aus", group: "Ansicht" },
+  { action: "rotatePage", keys: ["r"], description: "Aktuelle Seite im Uhrzeigersinn drehen", group: "Ansicht" },
+  { action: "present", keys: ["F5"], description: "Präsentation ab der aktuellen Seite", group: "Ansicht" },
+  { action: "print", keys: ["Mod+p"], description: "Drucken", group: "Allgemein", allowInInputs: true },
+  { action: "help", keys: ["?"], description: "Tastenkürzel anzeigen", group: "Allgemein" },
+  { action: "close", keys: ["Escape"], description: "Suche/Seitenleiste schließen, dann zum Bücherregal", group: "Allgemein" },
+];
+
+interface KeyLike {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+}
+
+const KEY_ALIASES: Record<string, string> = { Plus: "+", Space: " " };
+
+function matchesCombo(event: KeyLike, combo: string): boolean {
+  const parts = combo.split("+");
+  const key = KEY_ALIASES[parts[parts.length - 1]] ?? parts[parts.length - 1];
+  const modifiers = new Set(parts.slice(0, -1));
+
+  if ((event.ctrlKey || event.metaKey) !== modifiers.has("Mod")) return false;
+  if (event.altKey !== modifiers.has("Alt")) return false;
+
+  // Printable characters already carry Shift in `key` ("?" or "+"), so Shift
+  // only has to match for named keys like Space or the arrows
+  const isPrintable = key.length === 1 && key !== " ";
+  if (!isPrintable && event.shiftKey !== modifiers.has("Shift")) return false;
+
+  return isPrintable ? event.key.toLowerCase() === key.toLowerCase() : event.key === key;
+}
+
+export function matchShortcut(event: KeyLike, bindings: ShortcutBinding[] = VIEWER_SHORTCUTS): ShortcutBinding | null {
+  return bindings.find((binding) => binding.keys.some((combo) => matchesCombo(event, combo))) ?? null;
+}
+
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  return ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+const isMac = () => typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// Human-readable combo for the help overlay, e.g. "Strg + F" or "⌘ + F"
+export function formatCombo(combo: string): string {
+  return combo
+    .split("+")
+    .map((part) => {
+      if (part === "Mod") return isMac() ? "⌘" : "Strg";
+      if (part === "Shift") return "⇧";
+      if (part === "Alt") return isMac() ? "⌥" : "Alt";
+      if (part === "Plus") return "+";
+      if (part === "Space") return "Leertaste";
+      if (part === "ArrowRight") return "→";
+      if (part === "ArrowLeft") return "←";
+      if (part === "ArrowUp") return "↑";
+      if (part === "ArrowDown") return "↓";
+      if (part === "PageDown") return "Bild ↓";
+      if (part === "PageUp") return "Bild ↑";
+      if (part === "Home") return "Pos1";
+      if (part === "End") return "Ende";
+      if (part === "Escape") return "Esc";
+      return part.length === 1 ? part.toUpperCase() : part;
+    })
+    .join(" + ");
+}
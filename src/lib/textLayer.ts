@@ -0,0 +1,114 @@
+import { TextLayer, type PdfPage, type PdfViewport } from "@/lib/pdfjs";
+
+export interface TextLayerTask {
+  promise: Promise<void>;
+  cancel: () => void;
+  // One element and string per text item, filled in once `promise` resolves
+  textDivs: HTMLElement[];
+  textItems: string[];
+}
+
+export interface HighlightRange {
+  item: number;
+  from: number;
+  to: number;
+  selected: boolean;
+}
+
+// Renders the selectable text of a page into `container`. The viewport must be
+// at CSS scale (no devicePixelRatio) – pdf.js sizes the spans relative to the
+// `--scale-factor` variable that the page wrapper carries.
+export function renderTextLayer(page: PdfPage, container: HTMLElement, viewport: PdfViewport): TextLayerTask {
+  container.replaceChildren();
+
+  const textDivs: HTMLElement[] = [];
+  const textItems: string[] = [];
+  const layer = new TextLayer({
+    textContentSource: page.streamTextContent({ includeMarkedContent: true }),
+    container,
+    viewport,
+  });
+
+  const promise = layer.render().then(() => {
+    textDivs.push(...layer.textDivs);
+    textItems.push(...layer.textContentItemsStr);
+    // Lets a selection that is dragged past the last glyph keep extending
+    // instead of jumping back to the start of the page
+    const endOfContent = document.createElement("div");
+    endOfContent.className = "endOfContent";
+    container.append(endOfContent);
+  });
+
+  return { promise, cancel: () => layer.cancel(), textDivs, textItems };
+}
+
+// Wraps the given ranges of a rendered text layer in highlight spans and
+// restores every other item to plain text. Returns the selected hit, if any.
+export function highlightTextLayer(task: TextLayerTask, ranges: HighlightRange[]): HTMLElement | null {
+  const byItem = new Map<number, HighlightRange[]>();
+  for (const range of ranges) {
+    const list = byItem.get(range.item) ?? [];
+    list.push(range);
+    byItem.set(range.item, list);
+  }
+
+  let selected: HTMLElement | null = null;
+  task.textDivs.forEach((div, item) => {
+    const str = task.textItems[item] ?? "";
+    const itemRanges = byItem.get(item);
+    if (!itemRanges) {
+      if (div.childElementCount > 0) div.textContent = str;
+      return;
+    }
+
+    const fragment = document.createDocumentFragment();
+    let cursor = 0;
+    for (const range of itemRanges.sort((a, b) => a.from - b.from)) {
+      if (range.from > cursor) fragment.append(str.slice(cursor, range.from));
+      const mark = document.createElement("span");
+      mark.className = range.selected ? "highlight selected" : "highlight";
+      mark.textContent = str.slice(range.from, range.to);
+      fragment.append(mark);
+      if (range.selected && !selected) selected = mark;
+      cursor = range.to;
+    }
+    if (cursor < str.length) fragment.append(str.slice(cursor));
+    div.replaceChildren(fragment);
+  });
+
+  return selected;
+}
+
+// Marks text layers as "selecting" while the pointer is down so the
+// endOfContent filler spans the page, which keeps selections across lines
+// and pages from flickering to unrelated text.
+export function bindTextSelection(root: HTMLElement): () => void {
+  const onDown = (e: PointerEvent) => {
+    const layer = (e.target as HTMLElement | null)?.closest(".textLayer");
+    layer?.classList.add("selecting");
+  };
+  const onUp = () => {
+    root.querySelectorAll(".textLayer.selecting").forEach((layer) => layer.classList.remove("selecting"));
+  };
+
+  root.addEventListener("pointerdown", onDown);
+  document.addEventListener("pointerup", onUp);
+  return () => {
+    root.removeEventListener("pointerdown", onDown);
+    document.removeEventListener("pointerup", onUp);
+  };
+}
+
+// Cleans up text copied out of the text layer: pdf.js emits a span per text
+// run, which leaves doubled spaces, soft hyphens and stray padding per line.
+export function normalizeCopiedText(text: string): string {
+  return text
+    .split("\u0000")
+    .join("")
+    .replace(/\u00AD/g, "")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\u00A0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
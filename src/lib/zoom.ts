@@ -0,0 +1,125 @@
+import type { PageSize } from "@/types/pdf";
+
+export type ZoomMode = "fitWidth" | "fitPage" | "actualSize" | "custom";
+
+export interface ZoomPreference {
+  mode: ZoomMode;
+  scale: number;
+}
+
+export const MIN_SCALE = 0.25;
+export const MAX_SCALE = 4.0;
+export const SCALE_STEP = 0.1;
+
+const ZOOM_COOKIE_NAME = "pdfViewerZoom";
+const ZOOM_MODE_COOKIE_NAME = "pdfViewerZoomMode";
+const COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+// Breathing room around a fitted page (matches the viewer's page padding)
+const FIT_PADDING = 24;
+
+const ZOOM_MODES: ZoomMode[] = ["fitWidth", "fitPage", "actualSize", "custom"];
+
+export const clampScale = (value: number) => Math.max(MIN_SCALE, Math.min(MAX_SCALE, value));
+
+// Zoom level a gesture ends on, within bounds and to whole percent
+export const gestureZoomScale = (rawScale: number) => +clampScale(rawScale).toFixed(2);
+
+export type PageRect = Pick<DOMRectReadOnly, "left" | "top" | "right" | "bottom" | "width" | "height">;
+
+// A page point that stays under the gesture point across a zoom
+export interface ZoomAnchor {
+  pageNum: number;
+  // Position inside the page, 0–1 of its width/height
+  x: number;
+  y: number;
+  clientX: number;
+  clientY: number;
+}
+
+// Page point under (clientX, clientY), as fractions of the page box. Between
+// pages the nearest one is used.
+export function findZoomAnchor(
+  pages: Iterable<[number, PageRect]>,
+  clientX: number,
+  clientY: number
+): ZoomAnchor | null {
+  let nearest: { pageNum: number; rect: PageRect; distance: number } | null = null;
+  for (const [pageNum, rect] of pages) {
+    const distance = Math.hypot(
+      Math.max(rect.left - clientX, 0, clientX - rect.right),
+      Math.max(rect.top - clientY, 0, clientY - rect.bottom)
+    );
+    if (!nearest || distance < nearest.distance) nearest = { pageNum, rect, distance };
+  }
+  if (!nearest || nearest.rect.width === 0 || nearest.rect.height === 0) return null;
+  const { pageNum, rect } = nearest;
+  return {
+    pageNum,
+    x: (clientX - rect.left) / rect.width,
+    y: (clientY - rect.top) / rect.height,
+    clientX,
+    clientY,
+  };
+}
+
+// How far to scroll so the anchor is back under the gesture point, given
+// where its page is after the zoom
+export function zoomAnchorScroll(anchor: ZoomAnchor, rect: PageRect): { left: number; top: number } {
+  return {
+    left: rect.left + anchor.x * rect.width - anchor.clientX,
+    top: rect.top + anchor.y * rect.height - anchor.clientY,
+  };
+}
+
+// Scale for `mode` given the page at scale 1 and the scroll container's inner
+// size. Custom mode keeps `customScale`.
+export function computeZoomScale(
+  mode: ZoomMode,
+  page: PageSize,
+  viewport: { width: number; height: number },
+  customScale = 1
+): number {
+  const widthScale = Math.max(viewport.width - FIT_PADDING, 200) / page.width;
+  const heightScale = Math.max(viewport.height - FIT_PADDING, 200) / page.height;
+
+  switch (mode) {
+    case "fitWidth":
+      return clampScale(widthScale);
+    case "fitPage":
+      return clampScale(Math.min(widthScale, heightScale));
+    case "actualSize":
+      return 1;
+    case "custom":
+      return clampScale(customScale);
+  }
+}
+
+function readCookie(name: string): string | null {
+  const cookie = document.cookie
+    .split(";")
+    .map((entry) => entry.trim())
+    .find((entry) => entry.startsWith(`${name}=`));
+  return cookie ? decodeURIComponent(cookie.split("=")[1]) : null;
+}
+
+function writeCookie(name: string, value: string) {
+  document.cookie = `${name}=${encodeURIComponent(value)};path=/;max-age=${COOKIE_MAX_AGE_SECONDS};SameSite=Lax`;
+}
+
+// Reads the last zoom mode and level. A bare zoom cookie from before modes
+// existed counts as a custom zoom.
+export function readZoomPreference(): ZoomPreference | null {
+  const rawScale = readCookie(ZOOM_COOKIE_NAME);
+  const parsed = rawScale === null ? Number.NaN : Number.parseFloat(rawScale);
+  const scale = Number.isNaN(parsed) ? 1 : clampScale(Math.round(parsed * 100) / 100);
+
+  const rawMode = readCookie(ZOOM_MODE_COOKIE_NAME) as ZoomMode | null;
+  if (rawMode && ZOOM_MODES.includes(rawMode)) return { mode: rawMode, scale };
+  if (!Number.isNaN(parsed)) return { mode: "custom", scale };
+  return null;
+}
+
+export function writeZoomPreference({ mode, scale }: ZoomPreference) {
+  writeCookie(ZOOM_MODE_COOKIE_NAME, mode);
+  writeCookie(ZOOM_COOKIE_NAME, scale.toFixed(2));
+}
@@ -4,20 +4,35 @@ import { PdfViewer } from "@/components/PdfViewer";
 import { generateThumbnail } from "@/components/Bookshelf";
 import {
   uploadPdf,
+  updateThumbnail,
   loadAllPdfs,
   deletePdf,
   downloadPdfAsFile,
   getPublicUrl,
+  MAX_UPLOAD_SIZE,
+  readingPositionFromStored,
+  saveReadingPosition,
   StoredPdf,
 } from "@/lib/pdfStorage";
+import {
+  latestReadingPosition,
+  readLocalReadingPosition,
+  removeLocalReadingPosition,
+  writeLocalReadingPosition,
+} from "@/lib/readingPosition";
+import { PdfLoadErrorView } from "@/components/PdfLoadErrorView";
+import type { FormSaveMode } from "@/lib/pdfForms";
+import { PDF_LOAD_ERRORS } from "@/lib/pdfLoadErrors";
 import { Loader2 } from "lucide-react";
-import type { PdfEntry } from "@/types/pdf";
+import { toast } from "sonner";
+import type { PdfEntry, ReadingPosition } from "@/types/pdf";
 
 const Index = () => {
   const [books, setBooks] = useState<PdfEntry[]>([]);
   const [activeEntry, setActiveEntry] = useState<PdfEntry | null>(null);
   const [openFile, setOpenFile] = useState<File | null>(null);
   const [isInitialLoading, setIsInitialLoading] = useState(true);
+  const [openError, setOpenError] = useState(false);
 
   // Load existing PDFs from Cloud on mount
   useEffect(() => {
@@ -30,6 +45,7 @@ const Index = () => {
         name: s.name,
         size: s.size,
         publicUrl: getPublicUrl(s.storage_path),
+        readingPosition: latestReadingPosition(readingPositionFromStored(s), readLocalReadingPosition(s.id)),
       }));
       setBooks(entries);
       setIsInitialLoading(false);
@@ -38,6 +54,11 @@ const Index = () => {
 
   const handleAdd = useCallback(async (files: File[]) => {
     for (const file of files) {
+      if (file.size > MAX_UPLOAD_SIZE) {
+        toast.error(`„${file.name}“ ist größer als ${MAX_UPLOAD_SIZE / 1024 / 1024} MB und kann nicht hochgeladen werden.`);
+        continue;
+      }
+
       // Optimistic: add immediately with placeholder
       const tempId = `temp-${Date.now()}-${Math.random()}`;
       const tempEntry: PdfEntry = {
@@ -48,11 +69,16 @@ const Index = () => {
         name: file.name,
         size: file.size,
         publicUrl: "",
+        readingPosition: null,
       };
       setBooks((prev) => [...prev, tempEntry]);
 
-      // Generate thumbnail first, then upload
-      const thumbnail = await generateThumbnail(file);
+      // Generate thumbnail first, then upload. Encrypted files get theirs once
+      // they are unlocked in the viewer.
+      const { thumbnail, error } = await generateThumbnail(file);
+      if (error === "corrupt" || error === "unsupported") {
+        toast.warning(`„${file.name}“: ${PDF_LOAD_ERRORS[error].title}`);
+      }
       const stored = await uploadPdf(file, thumbnail);
 
       if (stored) {
@@ -64,6 +90,7 @@ const Index = () => {
           name: stored.name,
           size: stored.size,
           publicUrl: getPublicUrl(stored.storage_path),
+          readingPosition: null,
         };
         setBooks((prev) =>
           prev.map((b) => (b.id === tempId ? realEntry : b))
@@ -71,6 +98,7 @@ const Index = () => {
       } else {
         // Remove failed entry
         setBooks((prev) => prev.filter((b) => b.id !== tempId));
+        toast.error(`„${file.name}“ konnte nicht hochgeladen werden.`);
       }
     }
   }, []);
@@ -80,17 +108,21 @@ const Index = () => {
     if (entry?.storagePath) {
       deletePdf(id, entry.storagePath);
     }
+    removeLocalReadingPosition(id);
     setBooks((prev) => prev.filter((b) => b.id !== id));
   }, [books]);
 
   const handleOpen = useCallback(async (entry: PdfEntry) => {
     setActiveEntry(entry);
+    setOpenError(false);
     if (entry.file) {
       setOpenFile(entry.file);
     } else {
       // Download from Cloud storage
       const file = await downloadPdfAsFile(entry.storagePath, entry.name);
-      if (file) {
+      if (!file) {
+        setOpenError(true);
+      } else {
         setOpenFile(file);
         // Cache locally for future opens this session
         setBooks((prev) =>
@@ -100,6 +132,69 @@ const Index = () => {
     }
   }, []);
 
+  const handleReadingPosition = useCallback((id: string, position: ReadingPosition) => {
+    writeLocalReadingPosition(id, position);
+    if (!id.startsWith("temp-")) saveReadingPosition(id, position);
+    setBooks((prev) => prev.map((b) => (b.id === id ? { ...b, readingPosition: position } : b)));
+  }, []);
+
+  // Encrypted files get no thumbnail on upload; make it once the reader has
+  // unlocked the document
+  const handleUnlock = useCallback(async (entry: PdfEntry, file: File, password: string) => {
+    if (entry.thumbnail) return;
+    const { thumbnail } = await generateThumbnail(file, password);
+    if (!thumbnail) return;
+    if (!entry.id.startsWith("temp-")) updateThumbnail(entry.id, thumbnail);
+    setBooks((prev) => prev.map((b) => (b.id === entry.id ? { ...b, thumbnail } : b)));
+  }, []);
+
+  // Writes `file` over the entry's storage object, with a fresh thumbnail
+  const replaceEntryFile = useCallback(async (entry: PdfEntry, file: File) => {
+    const { thumbnail } = await generateThumbnail(file);
+    const stored = await uploadPdf(file, thumbnail, { id: entry.id, storagePath: entry.storagePath });
+    if (!stored) return false;
+    setBooks((prev) =>
+      prev.map((b) => (b.id === entry.id ? { ...b, file, size: stored.size, thumbnail: stored.thumbnail } : b))
+    );
+    return true;
+  }, []);
+
+  // A filled-in form goes to the library as a new entry or over the original.
+  // Over the original, the viewer reopens the saved file, so rotating, exporting
+  // or printing afterwards starts from the filled-in version.
+  const handleSaveForm = useCallback(async (entry: PdfEntry, file: File, mode: FormSaveMode) => {
+    if (mode === "overwrite") {
+      const replaced = await replaceEntryFile(entry, file);
+      if (replaced) setOpenFile(file);
+      return replaced;
+    }
+
+    const { thumbnail } = await generateThumbnail(file);
+    const stored = await uploadPdf(file, thumbnail);
+    if (!stored) return false;
+    setBooks((prev) => [
+      ...prev,
+      {
+        id: stored.id,
+        file,
+        storagePath: stored.storage_path,
+        thumbnail: stored.thumbnail,
+        name: stored.name,
+        size: stored.size,
+        publicUrl: getPublicUrl(stored.storage_path),
+        readingPosition: null,
+      },
+    ]);
+    return true;
+  }, [replaceEntryFile]);
+
+  // The viewer reopens the rotated file, so what's shown matches storage
+  const handleSaveRotation = useCallback(async (entry: PdfEntry, file: File) => {
+    const replaced = await replaceEntryFile(entry, file);
+    if (replaced) setOpenFile(file);
+    return replaced;
+  }, [replaceEntryFile]);
+
   if (isInitialLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -115,11 +210,32 @@ const Index = () => {
     return (
       <PdfViewer
         file={openFile}
+        documentId={activeEntry.id}
+        initialPosition={activeEntry.readingPosition}
+        onPositionChange={(position) => handleReadingPosition(activeEntry.id, position)}
+        onSaveForm={(file, mode) => handleSaveForm(activeEntry, file, mode)}
+        onSaveRotation={(file) => handleSaveRotation(activeEntry, file)}
+        onUnlock={(password) => handleUnlock(activeEntry, openFile, password)}
         onClose={() => { setActiveEntry(null); setOpenFile(null); }}
       />
     );
   }
 
+  if (activeEntry && openError) {
+    return (
+      <div className="min-h-screen flex justify-center bg-background">
+        <PdfLoadErrorView
+          kind="network"
+          onRetry={() => handleOpen(activeEntry)}
+          onDownloadOriginal={
+            activeEntry.publicUrl ? () => window.open(activeEntry.publicUrl, "_blank", "noopener,noreferrer") : undefined
+          }
+          onClose={() => { setActiveEntry(null); setOpenError(false); }}
+        />
+      </div>
+    );
+  }
+
   if (activeEntry && !openFile) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { ChevronLeft, ChevronRight, RotateCcw } from "lucide-react";
+import {
+  formatElapsed,
+  isPresenterMessage,
+  presenterChannelName,
+  presentationAction,
+  type PresenterMessage,
+} from "@/lib/presenter";
+
+type PresenterState = Extract<PresenterMessage, { type: "state" }>;
+
+// Presenter window opened next to a presentation: the page on screen, the
+// one coming up and a timer. Flipping here flips the presentation.
+const Presenter = () => {
+  const [searchParams] = useSearchParams();
+  const session = searchParams.get("session");
+  const [state, setState] = useState<PresenterState | null>(null);
+  const [hasEnded, setHasEnded] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  // Reset moves the timer's start without touching the presentation
+  const [timerStart, setTimerStart] = useState<number | null>(null);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => {
+    if (!session || typeof BroadcastChannel === "undefined") return;
+    const channel = new BroadcastChannel(presenterChannelName(session));
+    channelRef.current = channel;
+    channel.onmessage = (e: MessageEvent) => {
+      if (!isPresenterMessage(e.data)) return;
+      if (e.data.type === "state") {
+        setState(e.data);
+        setHasEnded(false);
+      } else if (e.data.type === "end") {
+        setHasEnded(true);
+        // Only works for windows opened by script, which this one is
+        window.close();
+      }
+    };
+    channel.postMessage({ type: "ready" } satisfies PresenterMessage);
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [session]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const goTo = (pageNum: number) => {
+    channelRef.current?.postMessage({ type: "goto", pageNum } satisfies PresenterMessage);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const current = stateRef.current;
+      const action = presentationAction(e);
+      if (!current || (action !== "next" && action !== "previous")) return;
+      e.preventDefault();
+      channelRef.current?.postMessage({
+        type: "goto",
+        pageNum: current.pageNum + (action === "next" ? 1 : -1),
+      } satisfies PresenterMessage);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    document.title = state ? `Referentenansicht – ${state.title}` : "Referentenansicht";
+  }, [state]);
+
+  if (!session || hasEnded || !state) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-neutral-950 text-sm text-neutral-400">
+        {!session || hasEnded ? "Die Präsentation ist beendet." : "Warte auf die Präsentation…"}
+      </div>
+    );
+  }
+
+  const startedAt = timerStart ?? state.startedAt;
+  const navButton =
+    "flex h-10 w-10 items-center justify-center rounded-full bg-white/10 transition-colors hover:bg-white/20 disabled:opacity-40";
+
+  return (
+    <div className="flex h-screen flex-col gap-4 bg-neutral-950 p-4 text-neutral-100">
+      <header className="flex items-center justify-between gap-4">
+        <h1 className="truncate text-sm font-semibold">{state.title}</h1>
+        <div className="flex items-center gap-3 font-mono text-2xl tabular-nums">
+          <span aria-label="Vergangene Zeit">{formatElapsed(now - startedAt)}</span>
+          <button
+            className="flex h-8 w-8 items-center justify-center rounded-full text-neutral-400 hover:bg-white/10 hover:text-neutral-100"
+            onClick={() => setTimerStart(Date.now())}
+            aria-label="Timer zurücksetzen"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </button>
+          <span className="text-base text-neutral-400">
+            {new Date(now).toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit" })}
+          </span>
+        </div>
+      </header>
+
+      <main className="grid min-h-0 flex-1 grid-cols-1 gap-4 md:grid-cols-[3fr_2fr]">
+        <section className="flex min-h-0 flex-col gap-2">
+          <h2 className="text-xs uppercase tracking-wide text-neutral-400">
+            Aktuell · Seite {state.pageNum} von {state.numPages}
+          </h2>
+          <div className="flex min-h-0 flex-1 items-center justify-center rounded-md bg-black">
+            {state.current && <img src={state.current} alt="" className="max-h-full max-w-full object-contain" />}
+          </div>
+        </section>
+        <section className="flex min-h-0 flex-col gap-2">
+          <h2 className="text-xs uppercase tracking-wide text-neutral-400">Als Nächstes</h2>
+          <div className="flex min-h-0 flex-1 items-center justify-center rounded-md bg-black">
+            {state.pageNum >= state.numPages ? (
+              <span className="text-sm text-neutral-500">Ende der Präsentation</span>
+            ) : (
+              state.next && <img src={state.next} alt="" className="max-h-full max-w-full object-contain" />
+            )}
+          </div>
+        </section>
+      </main>
+
+      <footer className="flex items-center justify-center gap-4">
+        <button
+          className={navButton}
+          onClick={() => goTo(state.pageNum - 1)}
+          disabled={state.pageNum <= 1}
+          aria-label="Vorherige Seite"
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </button>
+        <span className="text-sm tabular-nums text-neutral-400">
+          {state.pageNum} / {state.numPages}
+        </span>
+        <button
+          className={navButton}
+          onClick={() => goTo(state.pageNum + 1)}
+          disabled={state.pageNum >= state.numPages}
+          aria-label="Nächste Seite"
+        >
+          <ChevronRight className="h-5 w-5" />
+        </button>
+      </footer>
+    </div>
+  );
+};
+
+export default Presenter;
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  annotationsToJson,
+  annotationsToMarkdown,
+  annotationsToXfdf,
+  parseAnnotationsJson,
+  parseXfdf,
+  xfdfPageNums,
+} from "@/lib/annotationExchange";
+import { newImportedAnnotations, sortAnnotations } from "@/lib/annotations";
+import type { Annotation } from "@/types/pdf";
+import type { OutlineNode } from "@/lib/pdfOutline";
+
+const base = { color: "yellow" as const, note: "", createdAt: "2026-01-01T00:00:00.000Z", updatedAt: "2026-01-02T00:00:00.000Z" };
+
+const annotations: Annotation[] = [
+  { ...base, id: "h", type: "highlight", pageNum: 1, rects: [{ x: 50, y: 100, width: 120, height: 12 }], quote: "Wichtig" },
+  { ...base, id: "n", type: "note", pageNum: 3, position: { x: 300, y: 200 }, note: "Prüfen", color: "blue" },
+  { ...base, id: "i", type: "ink", pageNum: 3, paths: [[{ x: 50, y: 120 }, { x: 170, y: 121 }]], strokeWidth: 2 },
+];
+
+const node = (id: string, title: string, pageNum: number): OutlineNode => ({
+  id,
+  title,
+  destination: { pageNum, top: null, left: null },
+  url: null,
+  children: [],
+});
+
+describe("annotationsToMarkdown", () => {
+  it("groups quotes and notes under their outline section", () => {
+    const outline = [node("a", "Einleitung", 1), node("b", "Methoden", 2)];
+    const markdown = annotationsToMarkdown("Spec.pdf", annotations, outline, null);
+    expect(markdown).toContain("# Anmerkungen: Spec");
+    expect(markdown.indexOf("## Einleitung")).toBeLessThan(markdown.indexOf("> Wichtig"));
+    expect(markdown.indexOf("## Methoden")).toBeLessThan(markdown.indexOf("**S. 3** – Prüfen"));
+    expect(markdown).toContain("**S. 3** – Zeichnung");
+  });
+});
+
+describe("annotation JSON", () => {
+  it("round-trips annotations", () => {
+    expect(parseAnnotationsJson(annotationsToJson("Spec.pdf", annotations, 3))).toEqual(sortAnnotations(annotations));
+  });
+
+  it("rejects foreign files and newer versions", () => {
+    expect(parseAnnotationsJson("{}")).toBeNull();
+    expect(parseAnnotationsJson("kein json")).toBeNull();
+    expect(parseAnnotationsJson(JSON.stringify({ format: "pdf-annotations", version: 99, annotations: [] }))).toBeNull();
+  });
+});
+
+describe("XFDF", () => {
+  const geometry = () => ({ box: { x: 0, y: 0, width: 600, height: 800 }, rotation: 90 });
+
+  it("round-trips geometry, colour, note and dates", () => {
+    const parsed = parseXfdf(annotationsToXfdf("Spec.pdf", annotations, geometry), 3, geometry);
+    expect(parsed).toHaveLength(3);
+    const [highlight, ink, note] = parsed!;
+    expect(highlight).toMatchObject({ type: "highlight", pageNum: 1, rects: [{ x: 50, y: 100, width: 120, height: 12 }] });
+    expect(note).toMatchObject({ type: "note", pageNum: 3, note: "Prüfen", color: "blue", position: { x: 300, y: 200 } });
+    expect(note.createdAt).toBe(base.createdAt);
+    expect(ink).toMatchObject({ type: "ink", paths: [[{ x: 50, y: 120 }, { x: 170, y: 121 }]] });
+  });
+
+  it("skips pages the document doesn't have and rejects non-XFDF", () => {
+    expect(parseXfdf(annotationsToXfdf("Spec.pdf", annotations, geometry), 1, geometry)).toHaveLength(1);
+    expect(parseXfdf("<html/>", 3, geometry)).toBeNull();
+  });
+
+  it("lists the pages annotations are on", () => {
+    expect(xfdfPageNums(annotationsToXfdf("Spec.pdf", annotations, geometry), 3)).toEqual([1, 3]);
+    expect(xfdfPageNums("<html/>", 3)).toEqual([]);
+  });
+
+  it("adds nothing when the same file is imported twice", () => {
+    const xfdf = annotationsToXfdf("Spec.pdf", annotations, geometry);
+    const importFile = (existing: Annotation[]) => newImportedAnnotations(existing, parseXfdf(xfdf, 3, geometry)!);
+
+    const first = importFile([]);
+    expect(first).toHaveLength(3);
+    expect(first.map((annotation) => annotation.id)).not.toContain("h");
+    expect(importFile(first)).toEqual([]);
+  });
+});
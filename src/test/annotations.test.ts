@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { annotationAnchor, mergeLineRects, sortAnnotations } from "@/lib/annotations";
+import type { Annotation } from "@/types/pdf";
+
+const base = { color: "yellow" as const, note: "", createdAt: "2026-01-01T00:00:00Z", updatedAt: "2026-01-01T00:00:00Z" };
+
+describe("mergeLineRects", () => {
+  it("joins neighbouring spans on the same line", () => {
+    const merged = mergeLineRects([
+      { x: 60, y: 100, width: 40, height: 12 },
+      { x: 10, y: 100, width: 48, height: 12 },
+      { x: 10, y: 120, width: 80, height: 12 },
+    ]);
+    expect(merged).toEqual([
+      { x: 10, y: 100, width: 90, height: 12 },
+      { x: 10, y: 120, width: 80, height: 12 },
+    ]);
+  });
+
+  it("keeps columns apart", () => {
+    expect(
+      mergeLineRects([
+        { x: 10, y: 100, width: 40, height: 12 },
+        { x: 300, y: 100, width: 40, height: 12 },
+      ])
+    ).toHaveLength(2);
+  });
+});
+
+describe("sortAnnotations", () => {
+  it("orders by page, then top to bottom", () => {
+    const annotations: Annotation[] = [
+      { ...base, id: "ink", type: "ink", pageNum: 2, paths: [[{ x: 5, y: 50 }, { x: 40, y: 45 }]], strokeWidth: 2 },
+      { ...base, id: "note", type: "note", pageNum: 2, position: { x: 100, y: 20 } },
+      { ...base, id: "hl", type: "highlight", pageNum: 1, rects: [{ x: 10, y: 300, width: 50, height: 12 }], quote: "x" },
+    ];
+    expect(sortAnnotations(annotations).map((annotation) => annotation.id)).toEqual(["hl", "note", "ink"]);
+    expect(annotationAnchor(annotations[0])).toEqual({ x: 5, y: 45 });
+  });
+});
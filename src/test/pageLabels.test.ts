@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { getPageLabel, hasCustomLabel, resolvePageInput } from "@/lib/pageLabels";
+
+const labels = ["i", "ii", "iii", "iv", "1", "2", "3", "A-1", "A-2"];
+
+describe("resolvePageInput", () => {
+  it("prefers the document's page labels", () => {
+    expect(resolvePageInput("iv", labels, 9)).toBe(4);
+    expect(resolvePageInput("IV", labels, 9)).toBe(4);
+    expect(resolvePageInput("a-2", labels, 9)).toBe(9);
+    expect(resolvePageInput("2", labels, 9)).toBe(6);
+  });
+
+  it("falls back to the physical page number", () => {
+    expect(resolvePageInput("8", labels, 9)).toBe(8);
+    expect(resolvePageInput(" 3 ", null, 9)).toBe(3);
+  });
+
+  it("rejects unknown labels and out-of-range numbers", () => {
+    expect(resolvePageInput("xii", labels, 9)).toBeNull();
+    expect(resolvePageInput("10", null, 9)).toBeNull();
+    expect(resolvePageInput("0", null, 9)).toBeNull();
+    expect(resolvePageInput("", labels, 9)).toBeNull();
+  });
+});
+
+describe("getPageLabel", () => {
+  it("uses the label when one is defined", () => {
+    expect(getPageLabel(4, labels)).toBe("iv");
+    expect(hasCustomLabel(4, labels)).toBe(true);
+    expect(getPageLabel(4, null)).toBe("4");
+    expect(hasCustomLabel(4, null)).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { SPREAD_GAP, pageRows, rowFitSize, steppedPage } from "@/lib/pageLayout";
+
+describe("pageRows", () => {
+  it("pairs pages, with the cover alone in book mode", () => {
+    expect(pageRows(3, "vertical")).toEqual([[1], [2], [3]]);
+    expect(pageRows(5, "spread")).toEqual([[1, 2], [3, 4], [5]]);
+    expect(pageRows(5, "book")).toEqual([[1], [2, 3], [4, 5]]);
+    expect(pageRows(0, "book")).toEqual([]);
+  });
+});
+
+describe("steppedPage", () => {
+  it("moves by whole rows and stays inside the document", () => {
+    const rows = pageRows(6, "book");
+    expect(steppedPage(rows, 1, 1)).toBe(2);
+    expect(steppedPage(rows, 3, 1)).toBe(4);
+    expect(steppedPage(rows, 3, -1)).toBe(1);
+    expect(steppedPage(rows, 6, 1)).toBe(6);
+  });
+});
+
+describe("rowFitSize", () => {
+  it("fits both pages of a spread and treats a lone page as half of one", () => {
+    const sizes = [
+      { width: 400, height: 600 },
+      { width: 400, height: 600 },
+      { width: 500, height: 700 },
+    ];
+    const rows = pageRows(3, "book");
+    expect(rowFitSize(rows, 1, sizes, "book")).toEqual({ width: 800 + SPREAD_GAP, height: 600 });
+    expect(rowFitSize(rows, 3, sizes, "book")).toEqual({ width: 900 + SPREAD_GAP, height: 700 });
+    expect(rowFitSize(pageRows(3, "paged"), 3, sizes, "paged")).toEqual({ width: 500, height: 700 });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument, degrees } from "pdf-lib";
+import {
+  clientToPagePoint,
+  rotateAnnotationGeometry,
+  rotatePages,
+  rotatePdf,
+  rotatePoint,
+  unrotatePoint,
+} from "@/lib/pageRotation";
+import type { Annotation } from "@/types/pdf";
+
+// jsdom's File has no arrayBuffer()
+const readFile = (file: File) =>
+  new Promise<ArrayBuffer>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(file);
+  });
+
+const size = { width: 200, height: 100 };
+
+describe("rotatePoint", () => {
+  it("turns points clockwise around the page", () => {
+    expect(rotatePoint({ x: 10, y: 20 }, size, 90)).toEqual({ x: 80, y: 10 });
+    expect(rotatePoint({ x: 10, y: 20 }, size, 180)).toEqual({ x: 190, y: 80 });
+    expect(rotatePoint({ x: 10, y: 20 }, size, 270)).toEqual({ x: 20, y: 190 });
+  });
+
+  it("is undone by unrotatePoint", () => {
+    for (const rotation of [0, 90, 180, 270]) {
+      const point = { x: 37, y: 64 };
+      expect(unrotatePoint(rotatePoint(point, size, rotation), size, rotation)).toEqual(point);
+    }
+  });
+});
+
+describe("clientToPagePoint", () => {
+  it("maps a point on the turned page back to the unrotated page", () => {
+    // Turned by 90° the page is 100 wide and 200 tall; its top right corner
+    // is the top left corner of the unrotated page
+    const bounds = { left: 50, top: 0, width: 100, height: 200 };
+    expect(clientToPagePoint(150, 0, bounds, size, 90)).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe("rotatePages", () => {
+  it("adds the turn and drops pages back at 0°", () => {
+    const rotations = rotatePages(new Map([[2, 270]]), [1, 2], 90);
+    expect(Array.from(rotations)).toEqual([[1, 90]]);
+    expect(rotatePages(rotations, [1], -180).get(1)).toBe(270);
+  });
+});
+
+describe("rotateAnnotationGeometry", () => {
+  it("keeps highlight rects normalized", () => {
+    const highlight = {
+      id: "a",
+      type: "highlight",
+      pageNum: 1,
+      color: "yellow",
+      note: "",
+      quote: "",
+      rects: [{ x: 10, y: 20, width: 30, height: 5 }],
+      createdAt: "",
+      updatedAt: "",
+    } as Annotation;
+    expect(rotateAnnotationGeometry(highlight, size, 90)).toEqual({
+      rects: [{ x: 75, y: 10, width: 5, height: 30 }],
+    });
+  });
+});
+
+describe("rotatePdf", () => {
+  it("adds the rotation to each page's own /Rotate", async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage([200, 100]);
+    doc.addPage([200, 100]).setRotation(degrees(90));
+    const source = await doc.save();
+
+    const rotated = await rotatePdf(source.buffer as ArrayBuffer, new Map([[2, 270]]), "scan.pdf");
+    expect(rotated.name).toBe("scan.pdf");
+
+    const result = await PDFDocument.load(await readFile(rotated));
+    expect(result.getPages().map((page) => page.getRotation().angle)).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { loadNativeAnnotations } from "@/lib/pdfAnnotations";
+
+type AnnotationPage = Parameters<typeof loadNativeAnnotations>[0];
+type Annotations = Awaited<ReturnType<AnnotationPage["getAnnotations"]>>;
+
+const page = (annotations: Annotations): AnnotationPage => ({
+  // 200×100 pt page; flip y like pdf.js does for an unrotated viewport
+  getViewport: () => ({
+    convertToViewportPoint: (x: number, y: number) => [x, 100 - y],
+    convertToViewportRectangle: ([x1, y1, x2, y2]: number[]) => [x1, 100 - y1, x2, 100 - y2],
+  }),
+  getAnnotations: async () => annotations,
+});
+
+describe("loadNativeAnnotations", () => {
+  it("reads author, date, colour and geometry in page units", async () => {
+    const [highlight] = await loadNativeAnnotations(
+      page([
+        {
+          id: "7R",
+          subtype: "Highlight",
+          rect: [20, 60, 120, 80],
+          color: new Uint8ClampedArray([255, 204, 0]),
+          titleObj: { str: "Anna Schmidt" },
+          contentsObj: { str: " Bitte prüfen " },
+          modificationDate: "D:20260301101500+01'00'",
+          hasAppearance: true,
+          quadPoints: [
+            [
+              { x: 20, y: 80 },
+              { x: 120, y: 80 },
+              { x: 20, y: 60 },
+              { x: 120, y: 60 },
+            ],
+          ],
+        },
+      ]),
+      3
+    );
+    expect(highlight).toMatchObject({
+      id: "7R",
+      pageNum: 3,
+      kind: "highlight",
+      author: "Anna Schmidt",
+      contents: "Bitte prüfen",
+      modifiedAt: "2026-03-01T09:15:00.000Z",
+      color: "#ffcc00",
+      rect: { x: 20, y: 20, width: 100, height: 20 },
+      quads: [{ x: 20, y: 20, width: 100, height: 20 }],
+    });
+  });
+
+  it("accepts flat quad and ink arrays", async () => {
+    const [underline, ink] = await loadNativeAnnotations(
+      page([
+        { id: "1", subtype: "Underline", rect: [0, 0, 10, 10], quadPoints: [0, 10, 10, 10, 0, 0, 10, 0] },
+        { id: "2", subtype: "Ink", rect: [0, 0, 10, 10], inkLists: [new Float32Array([0, 0, 10, 10])] },
+      ]),
+      1
+    );
+    expect(underline.quads).toEqual([{ x: 0, y: 90, width: 10, height: 10 }]);
+    expect(ink.paths).toEqual([
+      [
+        { x: 0, y: 100 },
+        { x: 10, y: 90 },
+      ],
+    ]);
+  });
+
+  it("folds replies into their parent and skips links, popups and widgets", async () => {
+    const annotations = await loadNativeAnnotations(
+      page([
+        { id: "1", subtype: "Text", rect: [0, 0, 20, 20], contentsObj: { str: "Frage" } },
+        { id: "2", subtype: "Text", rect: [0, 0, 20, 20], inReplyTo: "1", titleObj: { str: "Ben" }, contentsObj: { str: "Antwort" } },
+        { id: "3", subtype: "Popup", rect: [0, 0, 20, 20] },
+        { id: "4", subtype: "Link", rect: [0, 0, 20, 20] },
+        { id: "5", subtype: "Widget", rect: [0, 0, 20, 20] },
+      ]),
+      1
+    );
+    expect(annotations.map((annotation) => annotation.id)).toEqual(["1"]);
+    expect(annotations[0].replies).toEqual([{ id: "2", author: "Ben", contents: "Antwort", modifiedAt: null }]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument, PDFName, PDFArray, PDFDict } from "pdf-lib";
+import { exportAnnotatedPdf, toPdfPoint } from "@/lib/pdfExport";
+import type { Annotation } from "@/types/pdf";
+
+// jsdom's File has no arrayBuffer()
+const readFile = (file: File) =>
+  new Promise<ArrayBuffer>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(file);
+  });
+
+const box = { x: 0, y: 0, width: 600, height: 800 };
+const base = { color: "yellow" as const, note: "", createdAt: "2026-01-01T00:00:00Z", updatedAt: "2026-01-01T00:00:00Z" };
+
+describe("toPdfPoint", () => {
+  it("flips the y axis of unrotated pages", () => {
+    expect(toPdfPoint({ x: 10, y: 20 }, box, 0)).toEqual({ x: 10, y: 780 });
+    expect(toPdfPoint({ x: 10, y: 20 }, { ...box, x: 5, y: 7 }, 0)).toEqual({ x: 15, y: 787 });
+  });
+
+  it("undoes page rotation", () => {
+    // Top left of the displayed page is the bottom left (90°), the top right
+    // (180°) or the top left rotated the other way (270°) of the PDF page
+    expect(toPdfPoint({ x: 0, y: 0 }, box, 90)).toEqual({ x: 0, y: 0 });
+    expect(toPdfPoint({ x: 0, y: 0 }, box, 180)).toEqual({ x: 600, y: 0 });
+    expect(toPdfPoint({ x: 0, y: 0 }, box, 270)).toEqual({ x: 600, y: 800 });
+  });
+});
+
+describe("exportAnnotatedPdf", () => {
+  const annotations: Annotation[] = [
+    { ...base, id: "h", type: "highlight", pageNum: 1, rects: [{ x: 50, y: 100, width: 120, height: 12 }], quote: "Text" },
+    { ...base, id: "n", type: "note", pageNum: 1, position: { x: 300, y: 200 }, note: "Prüfen" },
+    { ...base, id: "i", type: "ink", pageNum: 1, paths: [[{ x: 50, y: 120 }, { x: 170, y: 121 }]], strokeWidth: 2 },
+  ];
+
+  const source = async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage([600, 800]);
+    return (await doc.save()).buffer as ArrayBuffer;
+  };
+
+  it("adds standard annotations and names the file after the document", async () => {
+    const file = await exportAnnotatedPdf(await source(), annotations, "Spec.pdf");
+    expect(file.name).toBe("Spec (annotiert).pdf");
+
+    const doc = await PDFDocument.load(await readFile(file));
+    const annots = doc.getPage(0).node.lookup(PDFName.of("Annots"), PDFArray);
+    const subtypes = annots.asArray().map((ref) => doc.context.lookup(ref, PDFDict).get(PDFName.of("Subtype"))?.toString());
+    expect(subtypes).toEqual(["/Highlight", "/Text", "/Ink"]);
+  });
+
+  it("paints annotations into the page when flattening", async () => {
+    const file = await exportAnnotatedPdf(await source(), annotations, "Spec.pdf", { flatten: true });
+    const doc = await PDFDocument.load(await readFile(file));
+    expect(doc.getPage(0).node.Annots()?.size() ?? 0).toBe(0);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { fillPdfForm, loadFormFields } from "@/lib/pdfForms";
+
+// jsdom's File has no arrayBuffer()
+const readFile = (file: File) =>
+  new Promise<ArrayBuffer>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(file);
+  });
+
+type FormPage = Parameters<typeof loadFormFields>[0];
+type Widgets = Awaited<ReturnType<FormPage["getAnnotations"]>>;
+
+const page = (widgets: Widgets): FormPage => ({
+  getViewport: () => ({
+    convertToViewportRectangle: ([x1, y1, x2, y2]: number[]) => [x1, 100 - y1, x2, 100 - y2],
+  }),
+  getAnnotations: async () => widgets,
+});
+
+describe("loadFormFields", () => {
+  it("maps widgets to fields and skips push buttons and other annotations", async () => {
+    const fields = await loadFormFields(
+      page([
+        { id: "1", subtype: "Widget", rect: [10, 70, 110, 90], fieldName: "Name", fieldType: "Tx", fieldValue: "Anna", maxLen: 20 },
+        { id: "2", subtype: "Widget", rect: [0, 0, 10, 10], fieldName: "Bahn", fieldType: "Btn", checkBox: true, exportValue: "Ja", fieldValue: "Off" },
+        { id: "3", subtype: "Widget", rect: [0, 0, 10, 10], fieldName: "Klasse", fieldType: "Btn", radioButton: true, buttonValue: "2", fieldValue: "1" },
+        {
+          id: "4",
+          subtype: "Widget",
+          rect: [0, 0, 10, 10],
+          fieldName: "Land",
+          fieldType: "Ch",
+          fieldValue: ["DE"],
+          options: [{ exportValue: "DE", displayValue: "Deutschland" }],
+        },
+        { id: "5", subtype: "Widget", rect: [0, 0, 10, 10], fieldName: "Senden", fieldType: "Btn", pushButton: true },
+        { id: "6", subtype: "Highlight", rect: [0, 0, 10, 10] },
+      ]),
+      2
+    );
+    expect(fields.map((field) => [field.name, field.kind, field.value, field.onValue])).toEqual([
+      ["Name", "text", "Anna", ""],
+      ["Bahn", "checkbox", "Off", "Ja"],
+      ["Klasse", "radio", "1", "2"],
+      ["Land", "dropdown", "DE", ""],
+    ]);
+    expect(fields[0]).toMatchObject({ pageNum: 2, rect: { x: 10, y: 10, width: 100, height: 20 }, maxLength: 20 });
+    expect(fields[3].options).toEqual([{ value: "DE", label: "Deutschland" }]);
+  });
+});
+
+describe("fillPdfForm", () => {
+  it("writes text, checkbox, radio and dropdown values", async () => {
+    const doc = await PDFDocument.create();
+    const pdfPage = doc.addPage([600, 800]);
+    const form = doc.getForm();
+    form.createTextField("Name").addToPage(pdfPage, { x: 50, y: 700, width: 200, height: 20 });
+    form.createCheckBox("Bahn").addToPage(pdfPage, { x: 50, y: 650, width: 12, height: 12 });
+    const radio = form.createRadioGroup("Klasse");
+    radio.addOptionToPage("1", pdfPage, { x: 50, y: 600, width: 12, height: 12 });
+    radio.addOptionToPage("2", pdfPage, { x: 80, y: 600, width: 12, height: 12 });
+    const dropdown = form.createDropdown("Land");
+    dropdown.addOptions(["Deutschland", "Österreich"]);
+    dropdown.addToPage(pdfPage, { x: 50, y: 550, width: 200, height: 20 });
+    const source = (await doc.save()).buffer as ArrayBuffer;
+
+    const file = await fillPdfForm(
+      source,
+      { Name: "Anna Schmidt", Bahn: "Yes", Klasse: "2", Land: "Österreich" },
+      [],
+      "Reise (ausgefüllt).pdf"
+    );
+    expect(file.name).toBe("Reise (ausgefüllt).pdf");
+
+    const filled = (await PDFDocument.load(await readFile(file))).getForm();
+    expect(filled.getTextField("Name").getText()).toBe("Anna Schmidt");
+    expect(filled.getCheckBox("Bahn").isChecked()).toBe(true);
+    expect(filled.getRadioGroup("Klasse").getSelected()).toBe("2");
+    expect(filled.getDropdown("Land").getSelected()).toEqual(["Österreich"]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { loadPageLinks } from "@/lib/pdfLinks";
+
+type LinkPage = Parameters<typeof loadPageLinks>[0];
+type Annotations = Awaited<ReturnType<LinkPage["getAnnotations"]>>;
+
+const page = (annotations: Annotations): LinkPage => ({
+  // 200×100 pt page; flip y like pdf.js does for an unrotated viewport
+  getViewport: () => ({
+    width: 200,
+    height: 100,
+    convertToViewportRectangle: ([x1, y1, x2, y2]: number[]) => [x1, 100 - y1, x2, 100 - y2],
+  }),
+  getAnnotations: async () => annotations,
+});
+
+describe("loadPageLinks", () => {
+  it("positions links in percent of the page", async () => {
+    const links = await loadPageLinks(
+      page([{ id: "1", subtype: "Link", rect: [20, 60, 120, 80], dest: "kapitel-2" }])
+    );
+    expect(links).toEqual([
+      { id: "1", left: 10, top: 20, width: 50, height: 20, url: null, dest: "kapitel-2", action: null },
+    ]);
+  });
+
+  it("keeps web and mail links but drops other protocols and annotations", async () => {
+    const links = await loadPageLinks(
+      page([
+        { id: "1", subtype: "Link", rect: [0, 0, 1, 1], url: "https://example.com" },
+        { id: "2", subtype: "Link", rect: [0, 0, 1, 1], unsafeUrl: "mailto:info@example.com" },
+        { id: "3", subtype: "Link", rect: [0, 0, 1, 1], unsafeUrl: "javascript:alert(1)" },
+        { id: "4", subtype: "Highlight", rect: [0, 0, 1, 1] },
+      ])
+    );
+    expect(links.map((link) => link.url)).toEqual(["https://example.com", "mailto:info@example.com"]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { classifyPdfError, repairPdf } from "@/lib/pdfLoadErrors";
+
+// jsdom's File has no arrayBuffer()
+const readFile = (file: File) =>
+  new Promise<ArrayBuffer>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(file);
+  });
+
+describe("classifyPdfError", () => {
+  it("maps pdf.js exception names and falls back to the message", () => {
+    expect(classifyPdfError({ name: "PasswordException", message: "No password given" })).toBe("password");
+    expect(classifyPdfError({ name: "InvalidPDFException", message: "Invalid PDF structure." })).toBe("corrupt");
+    expect(classifyPdfError({ name: "MissingPDFException", message: "Missing PDF" })).toBe("network");
+    expect(classifyPdfError(new Error("Setting up fake worker failed"))).toBe("library");
+    expect(classifyPdfError(new TypeError("Failed to fetch"))).toBe("network");
+    expect(classifyPdfError(new Error("Bad XRef entry"))).toBe("corrupt");
+    expect(classifyPdfError(new Error("Unknown filter: JBIG3"))).toBe("unsupported");
+    expect(classifyPdfError(null)).toBe("unsupported");
+  });
+});
+
+describe("repairPdf", () => {
+  it("strips junk around the document and writes a readable copy", async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage([200, 300]);
+    doc.addPage([200, 300]);
+    const original = await doc.save();
+    const encode = (text: string) => new TextEncoder().encode(text);
+    const damaged = new Uint8Array([...encode("X-Mailer: junk\r\n"), ...original, ...encode("\r\n--boundary--\r\n")]);
+
+    const repaired = await repairPdf(damaged.buffer, "Vertrag.pdf");
+    expect(repaired?.name).toBe("Vertrag (repariert).pdf");
+    const reloaded = await PDFDocument.load(await readFile(repaired!));
+    expect(reloaded.getPageCount()).toBe(2);
+  });
+
+  it("gives up on files without a PDF header", async () => {
+    expect(await repairPdf(new TextEncoder().encode("<html>404</html>").buffer, "x.pdf")).toBeNull();
+  });
+});
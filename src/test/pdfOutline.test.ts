@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { findActiveOutlinePath, loadOutline, type OutlineNode } from "@/lib/pdfOutline";
+
+const node = (id: string, pageNum: number | null, children: OutlineNode[] = []): OutlineNode => ({
+  id,
+  title: id,
+  destination: pageNum === null ? null : { pageNum, top: null, left: null },
+  url: null,
+  children,
+});
+
+describe("findActiveOutlinePath", () => {
+  const outline = [
+    node("0", 1, [node("0.0", 2), node("0.1", 5)]),
+    node("1", 9, [node("1.0", 9), node("1.1", null)]),
+  ];
+
+  it("returns the deepest section starting on or before the page", () => {
+    expect(findActiveOutlinePath(outline, 6)).toEqual(["0", "0.1"]);
+    expect(findActiveOutlinePath(outline, 12)).toEqual(["1", "1.0"]);
+  });
+
+  it("returns nothing before the first section", () => {
+    expect(findActiveOutlinePath([node("0", 3)], 1)).toEqual([]);
+  });
+});
+
+describe("loadOutline", () => {
+  it("resolves named and explicit destinations to pages", async () => {
+    const pageRef = { num: 12, gen: 0 };
+    const pdf = {
+      numPages: 10,
+      getOutline: async () => [
+        { title: "Einleitung", dest: "intro", url: null, items: [] },
+        { title: "Anhang", dest: [pageRef, { name: "XYZ" }, 0, 700, null], url: null, items: [] },
+      ],
+      getDestination: async () => [2, { name: "FitH" }, 500],
+      getPageIndex: async () => 7,
+    };
+
+    const nodes = await loadOutline(pdf);
+    expect(nodes.map((n) => n.destination)).toEqual([
+      { pageNum: 3, top: 500, left: null },
+      { pageNum: 8, top: 700, left: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { forgetPassword, getRememberedPassword, passwordKey, rememberPassword } from "@/lib/pdfPasswords";
+
+const file = new File(["%PDF"], "Vertrag.pdf", { lastModified: 1000 });
+
+describe("passwordKey", () => {
+  it("uses the library id, or the file itself while it is still uploading", () => {
+    expect(passwordKey("abc", file)).toBe("abc");
+    expect(passwordKey("temp-1", file)).toBe("Vertrag.pdf:4:1000");
+    expect(passwordKey(null, file)).toBe("Vertrag.pdf:4:1000");
+  });
+});
+
+describe("remembered passwords", () => {
+  it("are kept per document until forgotten", () => {
+    rememberPassword("abc", "geheim");
+    expect(getRememberedPassword("abc")).toBe("geheim");
+    expect(getRememberedPassword("other")).toBeNull();
+    forgetPassword("abc");
+    expect(getRememberedPassword("abc")).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { buildPageText, findMatches, toItemRanges, DEFAULT_SEARCH_OPTIONS } from "@/lib/pdfSearch";
+
+const exact = { caseSensitive: true, wholeWord: false, ignoreDiacritics: false };
+
+describe("findMatches", () => {
+  it("ignores case by default", () => {
+    expect(findMatches("Pumpe und pumpe", "PUMPE", DEFAULT_SEARCH_OPTIONS)).toEqual([
+      [0, 5],
+      [10, 15],
+    ]);
+  });
+
+  it("respects case-sensitive mode", () => {
+    expect(findMatches("Pumpe und pumpe", "pumpe", exact)).toEqual([[10, 15]]);
+  });
+
+  it("matches umlauts against their transliteration", () => {
+    const text = "Ärger mit der Aerger-Klausel";
+    expect(findMatches(text, "aerger", DEFAULT_SEARCH_OPTIONS)).toEqual([
+      [0, 5],
+      [14, 20],
+    ]);
+    expect(findMatches(text, "ärger", DEFAULT_SEARCH_OPTIONS)).toHaveLength(2);
+    expect(findMatches(text, "ärger", { ...exact, caseSensitive: false })).toEqual([[0, 5]]);
+  });
+
+  it("only accepts whole words when requested", () => {
+    const options = { ...DEFAULT_SEARCH_OPTIONS, wholeWord: true };
+    expect(findMatches("Druck Druckluft Überdruck", "druck", options)).toEqual([[0, 5]]);
+  });
+
+  it("matches phrases across line breaks", () => {
+    const page = buildPageText([
+      { str: "Sicherheits", hasEOL: false },
+      { str: "ventil prüfen", hasEOL: true },
+      { str: "vor Betrieb", hasEOL: false },
+    ]);
+    expect(page.text).toBe("Sicherheitsventil prüfen\nvor Betrieb");
+    expect(findMatches(page.text, "prüfen vor", DEFAULT_SEARCH_OPTIONS)).toEqual([[18, 28]]);
+  });
+});
+
+describe("toItemRanges", () => {
+  it("splits a hit over the text items it spans", () => {
+    const page = buildPageText([{ str: "Sicherheits" }, { str: "ventil" }]);
+    expect(toItemRanges(page, 6, 14)).toEqual([
+      { item: 0, from: 6, to: 11 },
+      { item: 1, from: 0, to: 3 },
+    ]);
+  });
+});
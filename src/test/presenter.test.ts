@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { formatElapsed, isPresenterMessage, presentationAction } from "@/lib/presenter";
+
+const key = (key: string, modifiers: Partial<{ shiftKey: boolean; ctrlKey: boolean }> = {}) => ({
+  key,
+  shiftKey: false,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  ...modifiers,
+});
+
+describe("presentationAction", () => {
+  it("maps clicker and keyboard keys", () => {
+    expect(presentationAction(key("PageDown"))).toBe("next");
+    expect(presentationAction(key(" "))).toBe("next");
+    expect(presentationAction(key(" ", { shiftKey: true }))).toBe("previous");
+    expect(presentationAction(key("PageUp"))).toBe("previous");
+    expect(presentationAction(key("L", { shiftKey: true }))).toBe("laser");
+    expect(presentationAction(key("Escape"))).toBe("exit");
+  });
+
+  it("leaves browser shortcuts alone", () => {
+    expect(presentationAction(key("p", { ctrlKey: true }))).toBeNull();
+    expect(presentationAction(key("x"))).toBeNull();
+  });
+});
+
+describe("formatElapsed", () => {
+  it("shows minutes and seconds, and hours once needed", () => {
+    expect(formatElapsed(0)).toBe("0:00");
+    expect(formatElapsed(245_000)).toBe("4:05");
+    expect(formatElapsed(3_845_000)).toBe("1:04:05");
+  });
+});
+
+describe("isPresenterMessage", () => {
+  it("accepts known message types only", () => {
+    expect(isPresenterMessage({ type: "goto", pageNum: 3 })).toBe(true);
+    expect(isPresenterMessage({ type: "other" })).toBe(false);
+    expect(isPresenterMessage(null)).toBe(false);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { parsePageRange } from "@/lib/print";
+
+describe("parsePageRange", () => {
+  it("expands ranges and single pages in the order given", () => {
+    expect(parsePageRange("1-3, 9", 10)).toEqual([1, 2, 3, 9]);
+    expect(parsePageRange(" 9 ; 2–3 ", 10)).toEqual([9, 2, 3]);
+  });
+
+  it("runs open ranges to the end and drops repeats", () => {
+    expect(parsePageRange("8-, 9", 10)).toEqual([8, 9, 10]);
+  });
+
+  it("rejects malformed and out-of-range input", () => {
+    expect(parsePageRange("", 10)).toBeNull();
+    expect(parsePageRange("0-2", 10)).toBeNull();
+    expect(parsePageRange("5-3", 10)).toBeNull();
+    expect(parsePageRange("11", 10)).toBeNull();
+    expect(parsePageRange("1, abc", 10)).toBeNull();
+  });
+});
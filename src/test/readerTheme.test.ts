@@ -0,0 +1,17 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { readReaderTheme, writeReaderTheme } from "@/lib/readerTheme";
+
+describe("reader theme preference", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("starts with the original colours", () => {
+    expect(readReaderTheme()).toBe("original");
+  });
+
+  it("remembers the chosen theme and ignores unknown values", () => {
+    writeReaderTheme("sepia");
+    expect(readReaderTheme()).toBe("sepia");
+    localStorage.setItem("pdfReaderTheme", "neon");
+    expect(readReaderTheme()).toBe("original");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  latestReadingPosition,
+  parseReadingPosition,
+  readingProgress,
+  recentlyOpened,
+  readLocalReadingPosition,
+  removeLocalReadingPosition,
+  writeLocalReadingPosition,
+} from "@/lib/readingPosition";
+import type { ReadingPosition } from "@/types/pdf";
+
+const position = (pageNum: number, updatedAt: string): ReadingPosition => ({
+  pageNum,
+  offset: 0.25,
+  zoomMode: "fitWidth",
+  zoomScale: 1.5,
+  layout: "spread",
+  pageCount: 40,
+  reachedEnd: false,
+  updatedAt,
+});
+
+describe("parseReadingPosition", () => {
+  it("rejects positions without a valid page or timestamp", () => {
+    expect(parseReadingPosition(null)).toBeNull();
+    expect(parseReadingPosition({ pageNum: 0, updatedAt: "2026-01-01T00:00:00Z" })).toBeNull();
+    expect(parseReadingPosition({ pageNum: 3, updatedAt: "yesterday" })).toBeNull();
+  });
+
+  it("fills in defaults and clamps values from older rows", () => {
+    expect(parseReadingPosition({ pageNum: 3, offset: 4, zoomMode: "bogus", updatedAt: "2026-01-01T00:00:00Z" })).toEqual({
+      pageNum: 3,
+      offset: 1,
+      zoomMode: "fitWidth",
+      zoomScale: 1,
+      layout: "vertical",
+      pageCount: 0,
+      reachedEnd: false,
+      updatedAt: "2026-01-01T00:00:00Z",
+    });
+  });
+});
+
+describe("local reading position", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("round-trips per document and can be removed", () => {
+    const saved = position(12, "2026-03-01T10:00:00.000Z");
+    writeLocalReadingPosition("doc-1", saved);
+    expect(readLocalReadingPosition("doc-1")).toEqual(saved);
+    expect(readLocalReadingPosition("doc-2")).toBeNull();
+
+    removeLocalReadingPosition("doc-1");
+    expect(readLocalReadingPosition("doc-1")).toBeNull();
+  });
+});
+
+describe("latestReadingPosition", () => {
+  it("prefers the more recently saved position", () => {
+    const older = position(4, "2026-03-01T10:00:00.000Z");
+    const newer = position(9, "2026-03-02T08:00:00.000Z");
+    expect(latestReadingPosition(older, newer)).toBe(newer);
+    expect(latestReadingPosition(newer, older)).toBe(newer);
+    expect(latestReadingPosition(null, older)).toBe(older);
+  });
+});
+
+describe("readingProgress", () => {
+  it("measures progress by the page at the top of the viewport", () => {
+    expect(readingProgress({ ...position(11, "2026-03-01T10:00:00.000Z"), offset: 0 })?.fraction).toBeCloseTo(0.25);
+    expect(readingProgress({ ...position(3, "2026-03-01T10:00:00.000Z"), pageCount: 0 })).toBeNull();
+  });
+
+  it("finishes once the end of the last page was in view", () => {
+    const finished = { ...position(40, "2026-03-01T10:00:00.000Z"), reachedEnd: true };
+    expect(readingProgress(finished)).toEqual({ fraction: 1, isFinished: true });
+    expect(readingProgress({ ...finished, reachedEnd: false })?.isFinished).toBe(false);
+  });
+
+  it("doesn't finish a one-page document just by opening it", () => {
+    const single = { ...position(1, "2026-03-01T10:00:00.000Z"), offset: 0, pageCount: 1 };
+    expect(readingProgress(single)).toEqual({ fraction: 0, isFinished: false });
+    expect(readingProgress({ ...single, reachedEnd: true })?.isFinished).toBe(true);
+  });
+
+  it("finishes when the last page is too short to reach the top", () => {
+    // Scrolled to the end with page 39 still at the top
+    const atEnd = { ...position(39, "2026-03-01T10:00:00.000Z"), offset: 0.6, reachedEnd: true };
+    expect(readingProgress(atEnd)).toEqual({ fraction: 1, isFinished: true });
+  });
+
+  it("lists unfinished documents by last opened", () => {
+    const entries = [
+      { id: "a", readingPosition: position(4, "2026-03-01T10:00:00.000Z") },
+      { id: "b", readingPosition: null },
+      { id: "c", readingPosition: { ...position(40, "2026-03-03T10:00:00.000Z"), reachedEnd: true } },
+      { id: "d", readingPosition: position(2, "2026-03-02T10:00:00.000Z") },
+    ];
+    expect(recentlyOpened(entries, 5).map((entry) => entry.id)).toEqual(["d", "a"]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { createRenderQueue } from "@/lib/renderQueue";
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+describe("createRenderQueue", () => {
+  it("runs the lowest priority value first", async () => {
+    const queue = createRenderQueue();
+    const order: number[] = [];
+    const job = (key: number) => async () => {
+      order.push(key);
+    };
+
+    queue.enqueue(5, 4, job(5));
+    queue.enqueue(1, 0, job(1));
+    queue.enqueue(3, 2, job(3));
+    await flush();
+
+    expect(order).toEqual([1, 3, 5]);
+  });
+
+  it("drops the least important job when over capacity", async () => {
+    const queue = createRenderQueue({ maxPending: 2 });
+    const order: number[] = [];
+    const job = (key: number) => async () => {
+      order.push(key);
+    };
+
+    queue.enqueue(10, 9, job(10));
+    queue.enqueue(2, 1, job(2));
+    queue.enqueue(3, 2, job(3));
+    await flush();
+
+    expect(order).toEqual([2, 3]);
+  });
+
+  it("lets the owner enqueue dropped jobs again once drained", async () => {
+    const visible = [1, 2, 3, 4, 5];
+    const rendered = new Set<number>();
+    const enqueueMissing = () =>
+      visible
+        .filter((key) => !rendered.has(key))
+        .forEach((key) => queue.enqueue(key, key, async () => void rendered.add(key)));
+    const queue = createRenderQueue({ maxPending: 2, onDrained: enqueueMissing });
+
+    enqueueMissing();
+    await flush();
+
+    expect([...rendered].sort()).toEqual(visible);
+  });
+
+  it("replaces and cancels pending jobs by key", async () => {
+    const queue = createRenderQueue();
+    const order: string[] = [];
+
+    queue.enqueue(1, 0, async () => void order.push("old"));
+    queue.enqueue(1, 0, async () => void order.push("new"));
+    queue.enqueue(2, 1, async () => void order.push("cancelled"));
+    queue.cancel(2);
+    await flush();
+
+    expect(order).toEqual(["new"]);
+  });
+
+  it("resolves whenIdle after the last job finished", async () => {
+    const queue = createRenderQueue();
+    let done = false;
+
+    queue.enqueue(1, 0, async () => {
+      await flush();
+      done = true;
+    });
+    await queue.whenIdle();
+
+    expect(done).toBe(true);
+    expect(queue.size()).toBe(0);
+  });
+});
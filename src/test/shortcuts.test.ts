@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { matchShortcut } from "@/lib/shortcuts";
+
+const key = (value: string, modifiers: { ctrl?: boolean; meta?: boolean; alt?: boolean; shift?: boolean } = {}) => ({
+  key: value,
+  ctrlKey: !!modifiers.ctrl,
+  metaKey: !!modifiers.meta,
+  altKey: !!modifiers.alt,
+  shiftKey: !!modifiers.shift,
+});
+
+describe("matchShortcut", () => {
+  it("maps navigation keys", () => {
+    expect(matchShortcut(key("PageDown"))?.action).toBe("nextPage");
+    expect(matchShortcut(key(" "))?.action).toBe("nextPage");
+    expect(matchShortcut(key(" ", { shift: true }))?.action).toBe("previousPage");
+    expect(matchShortcut(key("ArrowLeft", { alt: true }))?.action).toBe("linkBack");
+  });
+
+  it("treats Ctrl and Cmd alike", () => {
+    expect(matchShortcut(key("f", { ctrl: true }))?.action).toBe("search");
+    expect(matchShortcut(key("F", { meta: true }))?.action).toBe("search");
+    expect(matchShortcut(key("f"))).toBeNull();
+  });
+
+  it("ignores Shift for printable characters", () => {
+    expect(matchShortcut(key("?", { shift: true }))?.action).toBe("help");
+    expect(matchShortcut(key("+", { shift: true }))?.action).toBe("zoomIn");
+  });
+
+  it("does not match when extra modifiers are held", () => {
+    expect(matchShortcut(key("o", { ctrl: true }))).toBeNull();
+    expect(matchShortcut(key("Home", { alt: true }))).toBeNull();
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, it, expect } from "vitest";
+import { normalizeCopiedText } from "@/lib/textLayer";
+
+describe("normalizeCopiedText", () => {
+  it("collapses span padding and trims line edges", () => {
+    expect(normalizeCopiedText("Die  Anlage \n  ist bereit ")).toBe("Die Anlage\nist bereit");
+  });
+
+  it("drops soft hyphens and null characters", () => {
+    expect(normalizeCopiedText("Druck\u00ADbehälter\u0000")).toBe("Druckbehälter");
+  });
+
+  it("keeps paragraph breaks but limits blank lines", () => {
+    expect(normalizeCopiedText("Absatz 1\r\n\r\n\r\n\r\nAbsatz 2")).toBe("Absatz 1\n\nAbsatz 2");
+  });
+});
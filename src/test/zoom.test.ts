@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  computeZoomScale,
+  findZoomAnchor,
+  gestureZoomScale,
+  readZoomPreference,
+  writeZoomPreference,
+  zoomAnchorScroll,
+  MAX_SCALE,
+  MIN_SCALE,
+} from "@/lib/zoom";
+
+const a4 = { width: 595, height: 842 };
+const a3Landscape = { width: 1191, height: 842 };
+const viewport = { width: 1214, height: 866 };
+
+describe("computeZoomScale", () => {
+  it("fits the width of the given page", () => {
+    expect(computeZoomScale("fitWidth", a4, viewport)).toBeCloseTo(2);
+    expect(computeZoomScale("fitWidth", a3Landscape, viewport)).toBeCloseTo(1);
+  });
+
+  it("fits the whole page into the viewport", () => {
+    expect(computeZoomScale("fitPage", a4, viewport)).toBeCloseTo(1);
+  });
+
+  it("uses 100% for actual size and clamps custom zoom", () => {
+    expect(computeZoomScale("actualSize", a4, viewport)).toBe(1);
+    expect(computeZoomScale("custom", a4, viewport, 12)).toBe(MAX_SCALE);
+  });
+});
+
+const pageRect = (left: number, top: number, width: number, height: number) => ({
+  left,
+  top,
+  width,
+  height,
+  right: left + width,
+  bottom: top + height,
+});
+
+describe("gesture zoom", () => {
+  it("clamps the final scale and rounds it to whole percent", () => {
+    expect(gestureZoomScale(1.23456)).toBe(1.23);
+    expect(gestureZoomScale(9)).toBe(MAX_SCALE);
+    expect(gestureZoomScale(0.01)).toBe(MIN_SCALE);
+  });
+
+  it("anchors at the point inside the page under the gesture", () => {
+    const pages: Array<[number, ReturnType<typeof pageRect>]> = [
+      [1, pageRect(100, 0, 400, 600)],
+      [2, pageRect(100, 620, 400, 600)],
+    ];
+    expect(findZoomAnchor(pages, 200, 770)).toEqual({ pageNum: 2, x: 0.25, y: 0.25, clientX: 200, clientY: 770 });
+    // In the gap between pages and beside them, the nearest page counts
+    expect(findZoomAnchor(pages, 50, 605)?.pageNum).toBe(1);
+    expect(findZoomAnchor([], 0, 0)).toBeNull();
+  });
+
+  it("scrolls the anchor back under the gesture point after zooming", () => {
+    const anchor = findZoomAnchor([[1, pageRect(100, 0, 400, 600)]], 300, 150)!;
+    // The page doubled in size around the container origin
+    expect(zoomAnchorScroll(anchor, pageRect(200, 0, 800, 1200))).toEqual({ left: 300, top: 150 });
+    expect(zoomAnchorScroll(anchor, pageRect(100, 0, 400, 600))).toEqual({ left: 0, top: 0 });
+  });
+});
+
+describe("zoom preference", () => {
+  beforeEach(() => {
+    document.cookie = "pdfViewerZoom=;path=/;max-age=0";
+    document.cookie = "pdfViewerZoomMode=;path=/;max-age=0";
+  });
+
+  it("round-trips mode and level", () => {
+    writeZoomPreference({ mode: "fitPage", scale: 1.37 });
+    expect(readZoomPreference()).toEqual({ mode: "fitPage", scale: 1.37 });
+  });
+
+  it("treats a zoom cookie without a mode as custom zoom", () => {
+    document.cookie = "pdfViewerZoom=1.5;path=/";
+    expect(readZoomPreference()).toEqual({ mode: "custom", scale: 1.5 });
+  });
+
+  it("returns null when nothing was saved", () => {
+    expect(readZoomPreference()).toBeNull();
+  });
+});
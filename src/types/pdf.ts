@@ -1,3 +1,6 @@
+import type { PageLayout } from "@/lib/pageLayout";
+import type { ZoomMode } from "@/lib/zoom";
+
 export interface PdfEntry {
   id: string;
   file: File | null;        // null if not yet downloaded from cloud
@@ -6,4 +9,80 @@ export interface PdfEntry {
   name: string;
   size: number;
   publicUrl: string;
+  readingPosition: ReadingPosition | null;
 }
+
+// Page dimensions in PDF points at scale 1
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+// A reading position that survives zoom changes: the page at the top of the
+// viewport and how far into it (0–1 of its height) the viewport starts
+export interface ScrollPosition {
+  pageNum: number;
+  offset: number;
+}
+
+// Where a document was left off, kept per PdfEntry locally and in pdf_library
+export interface ReadingPosition extends ScrollPosition {
+  zoomMode: ZoomMode;
+  zoomScale: number;
+  layout: PageLayout;
+  // 0 when the document hasn't been opened since page counts were recorded
+  pageCount: number;
+  // Whether the end of the last page was in view
+  reachedEnd: boolean;
+  updatedAt: string;
+}
+
+export type AnnotationColor = "yellow" | "green" | "blue" | "pink";
+
+// Annotation geometry is in page units at scale 1 with the origin at the top
+// left, i.e. CSS pixels of the page box at 100 % zoom
+export interface AnnotationRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+interface AnnotationBase {
+  id: string;
+  pageNum: number;
+  color: AnnotationColor;
+  note: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface HighlightAnnotation extends AnnotationBase {
+  type: "highlight";
+  rects: AnnotationRect[];
+  quote: string;
+}
+
+export interface NoteAnnotation extends AnnotationBase {
+  type: "note";
+  position: AnnotationPoint;
+}
+
+export interface InkAnnotation extends AnnotationBase {
+  type: "ink";
+  paths: AnnotationPoint[][];
+  strokeWidth: number;
+}
+
+export type Annotation = HighlightAnnotation | NoteAnnotation | InkAnnotation;
+
+// Where an annotation sits on its page, by kind
+export type AnnotationGeometry =
+  | Pick<HighlightAnnotation, "rects">
+  | Pick<NoteAnnotation, "position">
+  | Pick<InkAnnotation, "paths">;
@@ -0,0 +1,8 @@
+
+-- Remember where each document was left off, so reading resumes across devices
+ALTER TABLE public.pdf_library
+  ADD COLUMN last_page INTEGER,
+  ADD COLUMN last_page_offset REAL,
+  ADD COLUMN zoom_mode TEXT,
+  ADD COLUMN zoom_scale REAL,
+  ADD COLUMN last_opened_at TIMESTAMP WITH TIME ZONE;
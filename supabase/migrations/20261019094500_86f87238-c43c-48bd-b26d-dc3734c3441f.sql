@@ -0,0 +1,6 @@
+
+-- Page count alongside the reading position, and whether the end of the
+-- document was in view, for progress on the bookshelf
+ALTER TABLE public.pdf_library
+  ADD COLUMN page_count INTEGER,
+  ADD COLUMN reached_end BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,23 @@
+
+-- Highlights, sticky notes and ink drawn on documents in the library
+CREATE TABLE public.pdf_annotations (
+  id TEXT PRIMARY KEY,
+  pdf_id TEXT NOT NULL REFERENCES public.pdf_library(id) ON DELETE CASCADE,
+  page_num INTEGER NOT NULL,
+  type TEXT NOT NULL,
+  color TEXT NOT NULL,
+  note TEXT NOT NULL DEFAULT '',
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX pdf_annotations_pdf_id_idx ON public.pdf_annotations (pdf_id);
+
+ALTER TABLE public.pdf_annotations ENABLE ROW LEVEL SECURITY;
+
+-- Same open access as pdf_library (no auth for now)
+CREATE POLICY "Public annotations read" ON public.pdf_annotations FOR SELECT USING (true);
+CREATE POLICY "Public annotations insert" ON public.pdf_annotations FOR INSERT WITH CHECK (true);
+CREATE POLICY "Public annotations update" ON public.pdf_annotations FOR UPDATE USING (true);
+CREATE POLICY "Public annotations delete" ON public.pdf_annotations FOR DELETE USING (true);
@@ -0,0 +1,4 @@
+
+-- Page layout (continuous, spreads, paged, ...) chosen per document
+ALTER TABLE public.pdf_library
+  ADD COLUMN page_layout TEXT;
@@ -0,0 +1,4 @@
+-- Allow anyone to overwrite PDFs; replacing a stored file upserts it
+CREATE POLICY "Public PDF update access"
+ON storage.objects FOR UPDATE
+USING (bucket_id = 'pdfs');
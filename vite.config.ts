@@ -39,18 +39,11 @@ export default defineConfig(({ mode }) => ({
       },
       workbox: {
         navigateFallbackDenylist: [/^\/api\//],
+        // pdf.js and its worker ship as .mjs and are needed offline. The
+        // worker alone is ~1.4 MB, close to workbox's 2 MB default limit.
+        globPatterns: ["**/*.{js,mjs,css,html,svg}"],
+        maximumFileSizeToCacheInBytes: 4 * 1024 * 1024,
         runtimeCaching: [
-          {
-            urlPattern: /^https:\/\/cdnjs\.cloudflare\.com\/.*/i,
-            handler: "CacheFirst",
-            options: {
-              cacheName: "cdn-assets",
-              expiration: {
-                maxEntries: 20,
-                maxAgeSeconds: 60 * 60 * 24 * 30,
-              },
-            },
-          },
           {
             urlPattern: ({ request }) => request.destination === "image",
             handler: "StaleWhileRevalidate",